@@ -0,0 +1,128 @@
+// Minimal room relay for shared tables. It knows nothing about cards: a host
+// opens a room, guests join it by code, and every "send" is forwarded as-is.
+// The host's browser stays the source of truth for decks and draws.
+//
+//   npm run relay                 # listens on 0.0.0.0:8787
+//   PORT=9000 HOST=127.0.0.1 npm run relay
+import { WebSocketServer } from "ws";
+
+const PORT = Number(process.env.PORT) || 8787;
+const HOST = process.env.HOST || "0.0.0.0";
+// Card data for a whole table is sent in one message, so allow a generous size
+const MAX_PAYLOAD = 16 * 1024 * 1024;
+const HEARTBEAT_MS = 30_000;
+// No 0/O or 1/I, so codes survive being read aloud across a table
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 4;
+
+/** @type {Map<string, { hostId: string; clients: Map<string, { socket: import("ws").WebSocket; name: string }> }>} */
+const rooms = new Map();
+/** @type {Map<import("ws").WebSocket, { id: string; room: string | null; alive: boolean }>} */
+const clients = new Map();
+let nextClientId = 1;
+
+const newCode = () => {
+  for (;;) {
+    let code = "";
+    for (let i = 0; i < CODE_LENGTH; i++) code += CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)];
+    if (!rooms.has(code)) return code;
+  }
+};
+
+const sendTo = (socket, message) => {
+  if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const broadcast = (room, message, exceptId) => {
+  room.clients.forEach(({ socket }, id) => {
+    if (id !== exceptId) sendTo(socket, message);
+  });
+};
+
+const leave = (client) => {
+  const room = client.room && rooms.get(client.room);
+  if (!room) return;
+  room.clients.delete(client.id);
+  if (client.id === room.hostId) {
+    // The host holds the decks; without it the room can't go on
+    broadcast(room, { type: "room-closed" });
+    room.clients.forEach(({ socket }) => socket.close());
+    rooms.delete(client.room);
+  } else {
+    broadcast(room, { type: "peer-left", id: client.id });
+  }
+  client.room = null;
+};
+
+const handle = (client, socket, message) => {
+  switch (message.type) {
+    case "host": {
+      if (client.room) return sendTo(socket, { type: "error", message: "Already in a room." });
+      const code = newCode();
+      client.room = code;
+      rooms.set(code, { hostId: client.id, clients: new Map([[client.id, { socket, name: "Host" }]]) });
+      return sendTo(socket, { type: "hosted", room: code, id: client.id });
+    }
+    case "join": {
+      if (client.room) return sendTo(socket, { type: "error", message: "Already in a room." });
+      const code = String(message.room ?? "").trim().toUpperCase();
+      const room = rooms.get(code);
+      if (!room) return sendTo(socket, { type: "error", message: `No room with code ${code || "(blank)"}.` });
+      const name = String(message.name ?? "").trim().slice(0, 40) || `Player ${client.id}`;
+      const peers = [...room.clients].map(([id, { name: peerName }]) => ({ id, name: peerName }));
+      client.room = code;
+      room.clients.set(client.id, { socket, name });
+      sendTo(socket, { type: "joined", room: code, id: client.id, hostId: room.hostId, peers });
+      return broadcast(room, { type: "peer-joined", peer: { id: client.id, name } }, client.id);
+    }
+    case "send": {
+      const room = client.room && rooms.get(client.room);
+      if (!room) return sendTo(socket, { type: "error", message: "Not in a room." });
+      const forward = { type: "message", from: client.id, data: message.data };
+      if (typeof message.to === "string") {
+        const target = room.clients.get(message.to);
+        if (target) sendTo(target.socket, forward);
+      } else {
+        broadcast(room, forward, client.id);
+      }
+      return;
+    }
+    default:
+      return sendTo(socket, { type: "error", message: `Unknown message type "${message.type}".` });
+  }
+};
+
+const server = new WebSocketServer({ port: PORT, host: HOST, maxPayload: MAX_PAYLOAD });
+
+server.on("connection", (socket) => {
+  const client = { id: String(nextClientId++), room: null, alive: true };
+  clients.set(socket, client);
+  socket.on("pong", () => {
+    client.alive = true;
+  });
+  socket.on("message", (raw) => {
+    let message;
+    try {
+      message = JSON.parse(String(raw));
+    } catch {
+      return sendTo(socket, { type: "error", message: "Messages must be JSON." });
+    }
+    if (message && typeof message === "object") handle(client, socket, message);
+  });
+  socket.on("close", () => {
+    clients.delete(socket);
+    leave(client);
+  });
+});
+
+// Drop connections that vanished without a close frame (phones going to sleep)
+const heartbeat = setInterval(() => {
+  clients.forEach((client, socket) => {
+    if (!client.alive) return socket.terminate();
+    client.alive = false;
+    socket.ping();
+  });
+}, HEARTBEAT_MS);
+
+server.on("close", () => clearInterval(heartbeat));
+server.on("listening", () => console.log(`Card Drawer relay listening on ws://${HOST}:${PORT}`));
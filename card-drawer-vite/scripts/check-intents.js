@@ -0,0 +1,99 @@
+// Checks how the host vets guest actions before applying them to its table:
+// the shape check every relayed intent must pass, and the trimming of
+// oversized draws and rolls. Loads the TypeScript sources through Vite, so
+// "@/" imports resolve as they do in the app.
+//
+//   npm test
+import assert from "node:assert/strict";
+import { createServer } from "vite";
+
+const server = await createServer({ server: { middlewareMode: true }, appType: "custom", logLevel: "error" });
+let failed = 0;
+
+const check = (name, run) => {
+  try {
+    run();
+    console.log(`ok - ${name}`);
+  } catch (error) {
+    failed++;
+    console.log(`not ok - ${name}\n  ${String(error.message).replace(/\n/g, "\n  ")}`);
+  }
+};
+
+try {
+  const { isTableIntent, limitIntent } = await server.ssrLoadModule("/src/lib/multiplayer.ts");
+  const { MAX_DRAW_COUNT } = await server.ssrLoadModule("/src/lib/draw.ts");
+
+  check("accepts every well-formed intent", () => {
+    const valid = [
+      { type: "draw", parts: [{ category: "items", count: 2 }], label: "Draw 2 × Items" },
+      { type: "draw", parts: [], label: "", group: { id: "g", label: "Loot" }, owner: "p1", visibility: "hidden" },
+      { type: "dismiss", id: "card-1" },
+      { type: "return", id: "card-1", where: "top" },
+      { type: "return", id: "card-1", where: "shuffle" },
+      { type: "counter", id: "card-1", counter: "markers", value: -3 },
+      { type: "move", id: "card-1" },
+      { type: "move", id: "card-1", owner: "p1" },
+      { type: "visibility", id: "card-1", visibility: "revealed" },
+      { type: "roll", expression: "2d6+1" },
+    ];
+    for (const intent of valid) assert.ok(isTableIntent(intent), JSON.stringify(intent));
+  });
+
+  check("rejects malformed intents", () => {
+    const malformed = [
+      null,
+      "draw",
+      [],
+      {},
+      { type: "shuffle" },
+      { type: "draw", parts: "items", label: "Draw" },
+      { type: "draw", parts: [{ category: "items", count: 1.5 }], label: "Draw" },
+      { type: "draw", parts: [{ category: 3, count: 1 }], label: "Draw" },
+      { type: "draw", parts: [], label: 7 },
+      { type: "draw", parts: [], label: "", group: { id: "g" } },
+      { type: "draw", parts: [], label: "", visibility: "sideways" },
+      { type: "dismiss" },
+      { type: "return", id: "card-1", where: "middle" },
+      { type: "counter", id: "card-1", counter: "markers", value: Infinity },
+      { type: "counter", id: "card-1", counter: "markers", value: "3" },
+      { type: "move", id: "card-1", owner: 4 },
+      { type: "visibility", id: "card-1", visibility: true },
+      { type: "roll", expression: 20 },
+    ];
+    for (const intent of malformed) assert.ok(!isTableIntent(intent), JSON.stringify(intent));
+  });
+
+  check("trims oversized draws to the host's limits", () => {
+    const parts = Array.from({ length: 50 }, (_, i) => ({ category: `c${i}`, count: i % 2 ? 1e9 : -5 }));
+    const intent = { type: "draw", parts, label: "x".repeat(10_000), group: { id: "g".repeat(10_000), label: "l".repeat(10_000) } };
+    assert.ok(isTableIntent(intent));
+    const limited = limitIntent(intent);
+    assert.equal(limited.parts.length, 10);
+    assert.ok(limited.parts.every(({ count }) => count >= 1 && count <= MAX_DRAW_COUNT));
+    assert.equal(limited.label.length, 80);
+    assert.equal(limited.group.id.length, 80);
+    assert.equal(limited.group.label.length, 80);
+  });
+
+  check("gives unlabelled draws a label", () => {
+    assert.equal(limitIntent({ type: "draw", parts: [{ category: "items", count: 1 }], label: "" }).label, "Draw");
+  });
+
+  check("ignores oversized dice expressions", () => {
+    assert.equal(limitIntent({ type: "roll", expression: "d6+".repeat(100) + "1" }), null);
+    assert.deepEqual(limitIntent({ type: "roll", expression: "3d6" }), { type: "roll", expression: "3d6" });
+  });
+
+  check("passes other intents through unchanged", () => {
+    const intent = { type: "counter", id: "card-1", counter: "markers", value: 12 };
+    assert.equal(limitIntent(intent), intent);
+  });
+} finally {
+  await server.close();
+}
+
+if (failed > 0) {
+  console.log(`${failed} check${failed === 1 ? "" : "s"} failed`);
+  process.exitCode = 1;
+}
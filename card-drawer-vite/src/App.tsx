@@ -1,4 +1,4 @@
-import React, { useMemo, useRef, useState, useEffect } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -6,59 +6,111 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
-import { X, Dice3, Shuffle, Layers, Upload, Loader2, Trash2, PlusCircle, Eraser, Layers as LayersIcon } from "lucide-react";
-import Papa from "papaparse";
+import { X, Dice3, Shuffle, Layers, Upload, Loader2, Trash2, Plus, Minus, RotateCcw, Download, FileUp, Undo2, Redo2, Eye, EyeOff, ImageDown, Keyboard, Printer, Layers as LayersIcon } from "lucide-react";
+import type { CardVisibility, Category, CategoryDef, DataBundle, DeckState, DrawGroup, Drawn, Player, Recipe, RecipePart, RollRecord, Row, SourceState } from "@/lib/types";
+import { clearSession, loadSession, saveSession, type Session } from "@/lib/session";
+import { createRng, randomSeed } from "@/lib/rng";
+import { parseSaveFile, readSharedData, readSharedTable, SaveFileError, serializeSaveFile } from "@/lib/saveFile";
+import { createCategory, DEFAULT_CATEGORIES, detectCategoryFromFilename, emptyByCategory, getCategoryLabel, labelFromFilename } from "@/lib/categories";
+import { buildDeck, MAX_COPIES, readWeights } from "@/lib/weights";
+import { activeConditions, matchesFilters, type FilterCondition } from "@/lib/filters";
+import { drawIndices, MAX_DRAW_COUNT, matchingPositions, removeIndices, repeatWeights, returnToDeck, shuffleDeck, type DrawRules, type ReturnPosition } from "@/lib/draw";
+import { CategoryManager } from "@/components/CategoryManager";
+import { FilterBuilder } from "@/components/FilterBuilder";
+import { RecipePanel } from "@/components/RecipePanel";
+import { CardFace } from "@/components/CardFace";
+import { DiscardPile, ReturnButtons } from "@/components/DiscardPile";
+import { DicePanel, RollBreakdown } from "@/components/DicePanel";
+import { describeRoll, DiceSyntaxError, parseDice, rollDice } from "@/lib/dice";
+import { applyPlan, defaultPlan, type ParsedCsv } from "@/lib/csvImport";
+import { DATA_FILE_ACCEPT, displayName, formatFromName, matchName, parseDataFile } from "@/lib/dataFiles";
+import { ImportPreview } from "@/components/ImportPreview";
+import { SourcePanel } from "@/components/SourcePanel";
+import { BulkProgress, BulkSummary, EMPTY_REPORT, type BulkReport, type FileProgress } from "@/components/BulkReport";
+import { DropOverlay } from "@/components/DropOverlay";
+import type { DroppedFile } from "@/lib/dropFiles";
+import { RoomPanel } from "@/components/RoomPanel";
+import { PlayersPanel } from "@/components/PlayersPanel";
+import { defaultRelayUrl, limitIntent, openRoom, type PeerMessage, type RoomConnection, type RoomEvent, type RoomRole, type RoomState, type SharedData, type TableIntent } from "@/lib/multiplayer";
+import { inactiveRows, makeSource, sourceOf } from "@/lib/sources";
+import { rowName, type CardTemplate } from "@/lib/templates";
+import { clampCounter, counterValue, DEFAULT_COUNTERS, initialCounters, showsAsDots, type CounterDef, type CounterValues } from "@/lib/counters";
+import { logToCsv, logToMarkdown, MAX_LOG_ENTRIES, type LogEntry } from "@/lib/eventLog";
+import { LogPanel } from "@/components/LogPanel";
+import { EMPTY_TALLY, forgetDraws, tallyDraws, tallyRoll, type Tally } from "@/lib/stats";
+import { StatsPanel } from "@/components/StatsPanel";
+import { PrintView, type PrintCard } from "@/components/PrintView";
+import { CardImageError, renderElementToPng } from "@/lib/cardImage";
+import { CommandPalette } from "@/components/CommandPalette";
+import type { Command } from "@/lib/commands";
+import { makeId } from "@/lib/ids";
+import { emptyHistory, pushHistory, redoHistory, undoHistory, type History } from "@/lib/history";
 
-type Row = Record<string, string>;
+const NO_CONDITIONS: FilterCondition[] = [];
 
-type DataBundle = {
-  characters: Row[];
-  items: Row[];
-  locations: Row[];
-  quests: Row[];
-};
+const MAX_ROLL_HISTORY = 100;
+
+/** How long the table has to stay unchanged before the session is written to local storage. */
+const SESSION_SAVE_DELAY_MS = 1000;
+
+const DEFAULT_QUICK_ROLLS = ["1d3", "d6", "2d6", "d20"];
+
+/** The part of the session that undo/redo rewinds; dice counts stay, since rolls aren't undone. */
+type TableState = { categories: CategoryDef[]; data: DataBundle; sources: SourceState; decks: DeckState; discards: DeckState; faceDownDiscards: DeckState; drawn: Drawn[]; players: Player[]; drawTally: Tally["draws"] };
 
-type Category = keyof DataBundle;
+/** Where the next draw lands: a player's hand or the table, face up or down. */
+type Deal = Pick<Drawn, "owner" | "visibility">;
 
-const CATEGORY_OPTIONS: Array<{ key: Category; label: string }> = [
-  { key: "characters", label: "Characters" },
-  { key: "items", label: "Items" },
-  { key: "locations", label: "Locations" },
-  { key: "quests", label: "Quests" },
-];
+type LoadMode = "replace" | "append";
 
-const CATEGORY_ORDER: Category[] = CATEGORY_OPTIONS.map((option) => option.key);
+type FileLoad = { category: Category; fileName: string; rows: Row[] };
 
-const CATEGORY_MATCHES: Record<Category, string[]> = {
-  characters: ["characters", "character"],
-  items: ["items", "item"],
-  locations: ["locations", "location"],
-  quests: ["quests", "quest"],
+type LogEvent = Omit<LogEntry, "id" | "at">;
+
+const downloadBlob = (fileName: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
 };
 
-const getCategoryLabel = (category: Category) =>
-  CATEGORY_OPTIONS.find((option) => option.key === category)?.label ?? category;
+const downloadText = (fileName: string, text: string, type: string) => downloadBlob(fileName, new Blob([text], { type }));
+
+/** A card name made safe for a download file name. */
+const fileSlug = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 60) || "card";
+
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
 
-const detectCategoryFromFilename = (name: string): Category | null => {
-  const lower = name.toLowerCase();
-  for (const category of CATEGORY_ORDER) {
-    const tokens = CATEGORY_MATCHES[category];
-    if (tokens.some((token) => lower.includes(token))) {
-      return category;
+/** The drawn card holding keyboard focus (the card itself or one of its controls), if any. */
+const focusedCardElement = () =>
+  document.activeElement instanceof HTMLElement ? document.activeElement.closest<HTMLElement>("[data-card-id]") : null;
+
+const cardElements = (id: string) => Array.from(document.querySelectorAll<HTMLElement>(`[data-card-id="${CSS.escape(id)}"]`));
+
+type DrawnSegment = { key: string; group?: DrawGroup; cards: Drawn[] };
+
+/** Splits the drawn list into runs so cards from one group render together. */
+const segmentDrawn = (cards: Drawn[]): DrawnSegment[] => {
+  const segments: DrawnSegment[] = [];
+  cards.forEach((card) => {
+    const last = segments[segments.length - 1];
+    if (last && last.group?.id === card.group?.id) {
+      last.cards.push(card);
+    } else {
+      segments.push({ key: "", group: card.group, cards: [card] });
     }
-  }
-  return null;
+  });
+  // Loose runs are keyed by their oldest card, which stays put as new cards are prepended
+  segments.forEach((segment) => {
+    segment.key = segment.group ? segment.group.id : `loose-${segment.cards[segment.cards.length - 1].id}`;
+  });
+  return segments;
 };
 
-const parseCsvFile = (file: File): Promise<Row[]> =>
-  new Promise((resolve, reject) => {
-    Papa.parse<Row>(file, {
-      header: true,
-      skipEmptyLines: true,
-      complete: (results) => resolve(results.data.filter(Boolean)),
-      error: (error) => reject(error),
-    });
-  });
 
 function Section({ title, children, right }: { title: string; children: React.ReactNode; right?: React.ReactNode }) {
   return (
@@ -74,24 +126,25 @@ function Section({ title, children, right }: { title: string; children: React.Re
   );
 }
 
-function FilePicker({ id, label, onFile }: { id: string; label: string; onFile: (rows: Row[]) => void }) {
+/** Picks one data file; workbooks hand back every sheet so the caller can choose. */
+function FilePicker({ id, label, onFile }: { id: string; label: string; onFile: (sheets: ParsedCsv[]) => void }) {
   const [loading, setLoading] = useState(false);
   const [fileName, setFileName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
   const inputRef = useRef<HTMLInputElement | null>(null);
 
   const handleFile = (file: File) => {
     setLoading(true);
     setFileName(file.name);
-    Papa.parse<Row>(file, {
-      header: true,
-      skipEmptyLines: true,
-      complete: (results) => {
-        const rows = results.data.filter(Boolean);
-        onFile(rows);
+    setError(null);
+    parseDataFile(file)
+      .then(onFile)
+      .catch((reason: unknown) => setError(reason instanceof Error ? reason.message : String(reason)))
+      .finally(() => {
         setLoading(false);
-      },
-      error: () => setLoading(false),
-    });
+        // Allow picking the same file again after a cancelled preview
+        if (inputRef.current) inputRef.current.value = "";
+      });
   };
 
   return (
@@ -102,7 +155,7 @@ function FilePicker({ id, label, onFile }: { id: string; label: string; onFile:
           <Input
             id={id}
             type="file"
-            accept=".csv,text/csv"
+            accept={DATA_FILE_ACCEPT}
             ref={inputRef}
             onChange={(e) => {
               const file = e.target.files?.[0];
@@ -116,7 +169,7 @@ function FilePicker({ id, label, onFile }: { id: string; label: string; onFile:
             onClick={() => inputRef.current?.click()}
             className="gap-2"
           >
-            <Upload className="h-4 w-4" /> Upload CSV
+            <Upload className="h-4 w-4" /> Upload file
           </Button>
           {loading && (
             <Badge variant="secondary" className="gap-1">
@@ -124,12 +177,15 @@ function FilePicker({ id, label, onFile }: { id: string; label: string; onFile:
             </Badge>
           )}
         </div>
-        {fileName && (
+        {fileName && !error && (
           <div className="text-sm">
-            <span className="text-neutral-700">Loaded:</span>{" "}
+            <span className="text-neutral-700">Last file:</span>{" "}
             <span className="font-medium text-neutral-900">{fileName}</span>
           </div>
         )}
+        {error && (
+          <div className="text-sm text-red-700" role="alert">Could not read {fileName}: {error}</div>
+        )}
       </div>
     </div>
   );
@@ -145,10 +201,60 @@ function EmptyState({ title, subtitle }: { title: string; subtitle: string }) {
   );
 }
 
-function DrawnCard({ id, index, row, category, onDismiss }: { id: string; index: number; row: Row; category: Category; onDismiss: (id: string) => void; }) {
-  const [pips, setPips] = useState<number>(0);
-  const addPip = () => setPips((n) => Math.min(10, n + 1));
-  const clearPips = () => setPips(0);
+function CounterTrack({ def, value, onChange }: { def: CounterDef; value: number; onChange: (value: number) => void; }) {
+  const down = clampCounter(def, value - def.step);
+  const up = clampCounter(def, value + def.step);
+  const range = def.max !== undefined ? `${value}/${def.max}` : String(value);
+
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <div className="text-sm text-neutral-600 truncate">
+        <span style={{ color: def.color }} className="font-medium">{def.name}</span>
+        {showsAsDots(def) && <span className="ml-1">({range})</span>}
+      </div>
+      <div className="flex items-center gap-1">
+        <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => onChange(down)} disabled={down === value} aria-label={`Decrease ${def.name}`}>
+          <Minus className="h-4 w-4" />
+        </Button>
+        {showsAsDots(def) ? (
+          <div className="flex items-center gap-1 flex-wrap">
+            {Array.from({ length: def.max! }).map((_, i) => (
+              <span
+                key={i}
+                className={i < value ? "w-3 h-3 rounded-full shadow" : "w-3 h-3 rounded-full border border-dashed border-neutral-300 opacity-40"}
+                style={i < value ? { backgroundColor: def.color } : undefined}
+              />
+            ))}
+          </div>
+        ) : (
+          <span className="min-w-[3rem] text-center font-mono text-base tabular-nums" style={{ color: def.color }}>{range}</span>
+        )}
+        <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => onChange(up)} disabled={up === value} aria-label={`Increase ${def.name}`}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function DrawnCard({ id, index, row, categoryLabel, template, source, counters, values, owner, visibility = "revealed", concealed, canHandle, players, onExportImage, onCounterChange, onDismiss, onReturn, onMove, onVisibilityChange }: { id: string; index: number; row: Row; categoryLabel: string; template?: CardTemplate; source?: string; counters: CounterDef[]; values: CounterValues; owner?: string; visibility?: CardVisibility; concealed: boolean; canHandle: boolean; players: Player[]; onExportImage: (id: string, face: HTMLElement) => void; onCounterChange: (id: string, counter: string, value: number) => void; onDismiss: (id: string) => void; onReturn: (id: string, where: ReturnPosition) => void; onMove: (id: string, owner?: string) => void; onVisibilityChange: (id: string, visibility: CardVisibility) => void; }) {
+  const hidden = visibility === "hidden";
+  const faceRef = useRef<HTMLDivElement | null>(null);
+
+  const actions = (
+    <div className="flex items-center gap-1" data-export-skip="">
+      {!concealed && (
+        <Button size="icon" variant="ghost" onClick={() => faceRef.current && onExportImage(id, faceRef.current)} aria-label="Save card as PNG" title="Save as PNG">
+          <ImageDown className="h-5 w-5" />
+        </Button>
+      )}
+      {canHandle && (
+        <Button size="icon" variant="ghost" onClick={() => onDismiss(id)} aria-label="Discard card" title="Discard">
+          <X className="h-5 w-5" />
+        </Button>
+      )}
+    </div>
+  );
 
   return (
     <motion.div
@@ -156,75 +262,345 @@ function DrawnCard({ id, index, row, category, onDismiss }: { id: string; index:
       initial={{ opacity: 0, y: 8 }}
       animate={{ opacity: 1, y: 0 }}
       exit={{ opacity: 0, y: -8 }}
-      className="relative"
+      className="relative rounded-2xl focus:outline-none focus-visible:ring-2 focus-visible:ring-neutral-900 focus-visible:ring-offset-2"
+      tabIndex={0}
+      role="group"
+      aria-label={`${categoryLabel}: ${concealed ? "face-down card" : rowName(row, template)}`}
+      aria-keyshortcuts="X Delete + -"
+      data-card-id={id}
     >
       <Card className="rounded-2xl shadow-md bg-white border-neutral-200 h-full">
         <CardContent className="p-3 sm:p-5 lg:p-6">
-          <div className="flex items-start justify-between gap-3">
+          {concealed ? (
             <div>
-              <div className="flex items-center gap-2 mb-1">
-                <Badge variant="secondary">Row #{index + 1}</Badge>
+              <div className="flex items-start justify-between gap-2">
+                <Badge variant="secondary">{categoryLabel}</Badge>
+                {actions}
+              </div>
+              <div className="mt-3 h-40 rounded-xl border-4 border-white ring-1 ring-neutral-300 bg-gradient-to-br from-neutral-700 to-neutral-900 flex flex-col items-center justify-center gap-2 text-neutral-200">
+                <LayersIcon className="h-8 w-8 opacity-70" />
+                <span className="text-sm">Face down</span>
               </div>
-              <h3 className="text-xl font-semibold tracking-tight text-neutral-900">{category.charAt(0).toUpperCase() + category.slice(1)}</h3>
             </div>
-            <div className="flex items-center gap-1">
-              <Button size="icon" variant="ghost" onClick={addPip} disabled={pips >= 10} title={pips >= 10 ? "Max 10 markers" : "Add red marker"}>
-                <PlusCircle className="h-5 w-5 text-red-600" />
-              </Button>
-              <Button size="icon" variant="ghost" onClick={clearPips} disabled={pips === 0} title={pips === 0 ? "No markers to clear" : "Clear markers"}>
-                <Eraser className="h-5 w-5" />
-              </Button>
-              <Button size="icon" variant="ghost" onClick={() => onDismiss(id)} aria-label="Dismiss card">
-                <X className="h-5 w-5" />
-              </Button>
+          ) : (
+            <div ref={faceRef} className="bg-white">
+              <CardFace row={row} index={index} categoryLabel={categoryLabel} template={template} actions={actions} />
             </div>
-          </div>
+          )}
 
-          <div className="grid gap-3 mt-4">
-            <dl className="grid gap-2 text-sm text-neutral-900">
-              {Object.entries(row).map(([k, v]) => (
-                <div key={k} className="grid gap-1">
-                  <dt className="text-xs font-medium uppercase tracking-wide text-neutral-500">{k}</dt>
-                  <dd className="font-medium break-words text-neutral-900">{v}</dd>
-                </div>
-              ))}
-            </dl>
+          {hidden && !concealed && (
+            <div className="mt-3 flex items-center gap-1 text-xs text-neutral-500">
+              <EyeOff className="h-3.5 w-3.5" /> Hidden from everyone else
+            </div>
+          )}
+
+          {source && !concealed && (
+            <div className="mt-3 text-xs text-neutral-500 truncate" title={source}>From {source}</div>
+          )}
+
+          {canHandle && (
+            <div className="mt-3 flex items-center justify-between gap-2 flex-wrap">
+              <div className="text-xs font-medium uppercase tracking-wide text-neutral-500">Return to deck</div>
+              <div className="flex items-center">
+                <ReturnButtons size="sm" onReturn={(where) => onReturn(id, where)} />
+              </div>
+            </div>
+          )}
+
+          <div className="mt-3 flex items-center justify-between gap-2 flex-wrap">
+            <Label htmlFor={`move-${id}`} className="text-xs font-medium uppercase tracking-wide text-neutral-500">Move to</Label>
+            <div className="flex items-center gap-1">
+              <select
+                id={`move-${id}`}
+                value={owner ?? ""}
+                onChange={(e) => onMove(id, e.target.value || undefined)}
+                disabled={!canHandle}
+                title={canHandle ? undefined : "Only the player holding this face-down card can pass it on"}
+                className="h-9 px-2 rounded-xl border bg-white text-sm text-neutral-900 max-w-[9rem]"
+              >
+                <option value="">Table</option>
+                {players.map((player) => (
+                  <option key={player.id} value={player.id}>{player.name}</option>
+                ))}
+              </select>
+              {(canHandle || !hidden) && (
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => onVisibilityChange(id, hidden ? "revealed" : "hidden")}
+                  aria-label={hidden ? "Reveal card" : "Hide card"}
+                  title={hidden ? "Reveal to everyone" : "Turn face down"}
+                >
+                  {hidden ? <Eye className="h-5 w-5" /> : <EyeOff className="h-5 w-5" />}
+                </Button>
+              )}
+            </div>
           </div>
 
-          <div className="mt-4 flex items-center justify-between">
-            <div className="text-sm text-neutral-600">Markers <span className="ml-1">({pips}/10)</span></div>
-            <div className="flex items-center gap-1 flex-wrap">
-              {Array.from({ length: pips }).map((_, i) => (
-                <span key={i} className="w-3 h-3 rounded-full bg-red-600 border border-red-700 shadow" />
-              ))}
-              {Array.from({ length: Math.max(0, 10 - pips) }).map((_, i) => (
-                <span key={`empty-${i}`} className="w-3 h-3 rounded-full border border-dashed border-neutral-300 opacity-40" />
+          {counters.length > 0 && !concealed && (
+            <div className="mt-4 grid gap-1">
+              {counters.map((def) => (
+                <CounterTrack key={def.id} def={def} value={counterValue(def, values, row)} onChange={(value) => onCounterChange(id, def.id, value)} />
               ))}
             </div>
-          </div>
+          )}
         </CardContent>
       </Card>
     </motion.div>
   );
 }
 
-type Drawn = { id: string; index: number; row: Row; category: Category };
-
 export default function App() {
-  const [data, setData] = useState<DataBundle>({ characters: [], items: [], locations: [], quests: [] });
-  const [allowRepeats, setAllowRepeats] = useState(false);
-  const [drawn, setDrawn] = useState<Drawn[]>([]);
-  const [remaining, setRemaining] = useState<number[]>([]);
-  const [lastRoll, setLastRoll] = useState<number | null>(null);
-  const [rollToken, setRollToken] = useState(0);
-  const [selectedCategory, setSelectedCategory] = useState<Category>("characters");
+  const [restored] = useState(loadSession);
+  const [categories, setCategories] = useState<CategoryDef[]>(restored?.categories ?? DEFAULT_CATEGORIES);
+  const [data, setData] = useState<DataBundle>(() => restored?.data ?? emptyByCategory(DEFAULT_CATEGORIES, () => []));
+  const [sources, setSources] = useState<SourceState>(restored?.sources ?? {});
+  const [bulkMode, setBulkMode] = useState<LoadMode>("replace");
+  const [allowRepeats, setAllowRepeats] = useState(restored?.allowRepeats ?? false);
+  const [drawn, setDrawn] = useState<Drawn[]>(restored?.drawn ?? []);
+  const [players, setPlayers] = useState<Player[]>(restored?.players ?? []);
+  // Who is looking at this screen outside a shared room (pass-and-play); decides which hidden cards show their face. Never shared or saved.
+  const [localSeat, setLocalSeat] = useState<string | null>(null);
+  const [deal, setDeal] = useState<Deal>({});
+  const [filters, setFilters] = useState<Record<Category, FilterCondition[]>>(restored?.filters ?? {});
+  const [recipes, setRecipes] = useState<Recipe[]>(restored?.recipes ?? []);
+  const [drawCount, setDrawCount] = useState(1);
+  const [drawStatus, setDrawStatus] = useState<string | null>(null);
+  const [history, setHistory] = useState<History<TableState>>(emptyHistory);
+  const [pendingImport, setPendingImport] = useState<{ category: Category; parsed: ParsedCsv; sheets: ParsedCsv[] } | null>(null);
+  const [decks, setDecks] = useState<DeckState>(() => restored?.decks ?? emptyByCategory(DEFAULT_CATEGORIES, () => []));
+  const [discards, setDiscards] = useState<DeckState>(() => restored?.discards ?? emptyByCategory(DEFAULT_CATEGORIES, () => []));
+  const [faceDownDiscards, setFaceDownDiscards] = useState<DeckState>(restored?.faceDownDiscards ?? {});
+  const [rolls, setRolls] = useState<RollRecord[]>(restored?.rolls ?? []);
+  const [log, setLog] = useState<LogEntry[]>(restored?.log ?? []);
+  const [logOpen, setLogOpen] = useState(false);
+  const [tally, setTally] = useState<Tally>(restored?.tally ?? EMPTY_TALLY);
+  const [statsOpen, setStatsOpen] = useState(false);
+  const [printing, setPrinting] = useState(false);
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  // Read out by screen readers; a trailing space is toggled so the same text is announced twice
+  const [announcement, setAnnouncement] = useState("");
+  const [quickRolls, setQuickRolls] = useState<string[]>(restored?.quickRolls ?? DEFAULT_QUICK_ROLLS);
+  const [rollExpression, setRollExpression] = useState(restored?.quickRolls?.[0] ?? DEFAULT_QUICK_ROLLS[0]);
+  const [rollError, setRollError] = useState<string | null>(null);
+  const lastRoll = rolls[0];
+  const [selectedCategory, setSelectedCategory] = useState<Category>(restored?.selectedCategory ?? DEFAULT_CATEGORIES[0].key);
+  const [initialRng] = useState(() => (restored ? createRng(restored.rng.seed, restored.rng.state) : createRng(randomSeed())));
+  const rngRef = useRef(initialRng);
+  const [seed, setSeed] = useState(initialRng.seed);
+  const [seedDraft, setSeedDraft] = useState(initialRng.seed);
   const [bulkLoading, setBulkLoading] = useState(false);
-  const [bulkStatus, setBulkStatus] = useState<string | null>(null);
+  const [bulkReport, setBulkReport] = useState<BulkReport | null>(null);
+  const [bulkProgress, setBulkProgress] = useState<FileProgress[]>([]);
+  const [pickerEpoch, setPickerEpoch] = useState(0);
+  const [saveStatus, setSaveStatus] = useState<string | null>(null);
+  const [sessionSaveFailed, setSessionSaveFailed] = useState(false);
+  const [room, setRoom] = useState<RoomState | null>(null);
+  const [roomStatus, setRoomStatus] = useState<string | null>(null);
+  const [relayUrl, setRelayUrl] = useState(defaultRelayUrl);
+  // Guest actions waiting for the host to apply them, one per render so each sees the previous one's decks
+  const [inbox, setInbox] = useState<Array<{ from: string; intent: TableIntent }>>([]);
+  const roomRef = useRef<RoomConnection | null>(null);
+  const awaitingTableRef = useRef(false);
+  // Set as soon as a room opens, since messages can arrive before the render that stores it in `room`
+  const hostIdRef = useRef<string | null>(null);
+  // The host's card data as last received; table updates are checked against it
+  const hostDataRef = useRef<SharedData | null>(null);
+  const isGuest = room?.role === "guest";
+
+  const seatOfPeer = (peerId: string | null) => players.find((p) => p.peerId !== undefined && p.peerId === peerId)?.id ?? null;
+
+  // In a shared room the host seats each device, so nobody can pick someone else's hand to look at
+  const seat = room ? seatOfPeer(room.selfId) : localSeat;
   const bulkInputRef = useRef<HTMLInputElement | null>(null);
+  const saveInputRef = useRef<HTMLInputElement | null>(null);
+  // Paths dropped while a bulk upload was still loading, reported with that upload's summary
+  const busyDropsRef = useRef<string[]>([]);
+
+  const currentSession = (): Session => ({
+    categories,
+    data,
+    sources,
+    decks,
+    discards,
+    faceDownDiscards,
+    drawn,
+    players,
+    filters,
+    recipes,
+    rolls,
+    log,
+    tally,
+    quickRolls,
+    allowRepeats,
+    selectedCategory,
+    rng: rngRef.current.snapshot(),
+  });
+
+  // The session waiting to be written; serialising every loaded row on each change would stall quick clicking
+  const pendingSessionRef = useRef<Session | null>(null);
+  const flushSession = () => {
+    const pending = pendingSessionRef.current;
+    if (!pending) return;
+    pendingSessionRef.current = null;
+    setSessionSaveFailed(!saveSession(pending));
+  };
+
+  useEffect(() => {
+    // A guest is only mirroring the host; keep its own saved session (written now if still pending) for when it leaves
+    if (isGuest) return flushSession();
+    pendingSessionRef.current = currentSession();
+    const timer = window.setTimeout(flushSession, SESSION_SAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [isGuest, categories, data, sources, decks, discards, faceDownDiscards, drawn, players, filters, recipes, rolls, log, tally, quickRolls, allowRepeats, selectedCategory, seed]);
+
+  // A closing or backgrounded tab may never get to the timer
+  useEffect(() => {
+    const onHide = () => {
+      if (document.visibilityState === "hidden") flushSession();
+    };
+    document.addEventListener("visibilitychange", onHide);
+    window.addEventListener("pagehide", flushSession);
+    return () => {
+      document.removeEventListener("visibilitychange", onHide);
+      window.removeEventListener("pagehide", flushSession);
+    };
+  }, []);
+
+  // Latest table state, so snapshots taken after an await (file parsing) aren't stale
+  const tableRef = useRef<TableState>({ categories, data, sources, decks, discards, faceDownDiscards, drawn, players, drawTally: tally.draws });
+  tableRef.current = { categories, data, sources, decks, discards, faceDownDiscards, drawn, players, drawTally: tally.draws };
+
+  const record = (label: string) => setHistory((prev) => pushHistory(prev, label, tableRef.current));
 
-  const selectCategory = (category: Category) => {
-    setSelectedCategory(category);
-    setRemaining([]);
+  /** Appends events to the session log, given oldest first. */
+  const logEvents = (events: LogEvent[]) => {
+    const at = Date.now();
+    const entries = events.map((event) => ({ id: makeId("log"), at, ...event })).reverse();
+    setLog((prev) => [...entries, ...prev].slice(0, MAX_LOG_ENTRIES));
+  };
+
+  const restoreTable = (table: TableState) => {
+    // The snapshot decides which categories exist and what their decks are built from;
+    // labels, templates and counters keep their latest edits
+    const restored = table.categories.map((def) => {
+      const current = categories.find((c) => c.key === def.key);
+      return current ? { ...current, weightColumn: def.weightColumn } : def;
+    });
+    setCategories(restored);
+    setData({ ...emptyByCategory(restored, () => []), ...table.data });
+    setSources(table.sources);
+    setDecks({ ...emptyByCategory(restored, () => []), ...table.decks });
+    setDiscards({ ...emptyByCategory(restored, () => []), ...table.discards });
+    setFaceDownDiscards(table.faceDownDiscards);
+    setDrawn(table.drawn);
+    setPlayers(table.players);
+    setTally((prev) => ({ ...prev, draws: table.drawTally }));
+    if (!restored.some((c) => c.key === selectedCategory)) setSelectedCategory(restored[0].key);
+  };
+
+  const undo = () => {
+    if (isGuest) return;
+    const step = undoHistory(history, tableRef.current);
+    if (!step) return;
+    restoreTable(step.state);
+    setHistory(step.history);
+    setDrawStatus(`Undid: ${step.label}`);
+    logEvents([{ kind: "undo", text: step.label }]);
+  };
+
+  const redo = () => {
+    if (isGuest) return;
+    const step = redoHistory(history, tableRef.current);
+    if (!step) return;
+    restoreTable(step.state);
+    setHistory(step.history);
+    setDrawStatus(`Redid: ${step.label}`);
+    logEvents([{ kind: "redo", text: step.label }]);
+  };
+
+  const announce = (text: string) => setAnnouncement((prev) => (prev === text ? `${text}\u00a0` : text));
+
+  const applySeed = (next: string) => {
+    const trimmed = next.trim();
+    if (!trimmed) {
+      setSeedDraft(seed);
+      return;
+    }
+    rngRef.current = createRng(trimmed);
+    setSeed(trimmed);
+    setSeedDraft(trimmed);
+  };
+
+  const selectCategory = (category: Category) => setSelectedCategory(category);
+
+  const labelOf = (category: Category) => getCategoryLabel(categories, category);
+
+  const templateOf = (category: Category) => categories.find((c) => c.key === category)?.template;
+
+  const countersOf = (category: Category) => categories.find((c) => c.key === category)?.counters ?? DEFAULT_COUNTERS;
+
+  const nameOf = (card: Pick<Drawn, "category" | "row">) => rowName(card.row, templateOf(card.category));
+
+  /** How a card is named in the log; face-down cards stay anonymous until they are revealed. */
+  const logName = (card: Drawn) => (card.visibility === "hidden" ? "A face-down card" : nameOf(card));
+
+  const addCategory = (label: string) => {
+    const category = createCategory(categories, label);
+    record(`Add category ${category.label}`);
+    setCategories((prev) => [...prev, category]);
+    setData((prev) => ({ ...prev, [category.key]: [] }));
+    setDecks((prev) => ({ ...prev, [category.key]: [] }));
+    setDiscards((prev) => ({ ...prev, [category.key]: [] }));
+  };
+
+  const emptyDiscards = (category: Category) => {
+    setDiscards((prev) => ({ ...prev, [category]: [] }));
+    setFaceDownDiscards((prev) => ({ ...prev, [category]: [] }));
+  };
+
+  const freshDeck = (rows: Row[], column?: string) => shuffleDeck(rngRef.current, buildDeck(rows, column));
+
+  const weightColumnOf = (category: Category, defs: CategoryDef[] = categories) =>
+    defs.find((c) => c.key === category)?.weightColumn || undefined;
+
+  const updateCategory = (next: CategoryDef) => {
+    const previous = categories.find((c) => c.key === next.key);
+    setCategories((prev) => prev.map((c) => (c.key === next.key ? next : c)));
+    // Copies change what the deck is made of, so rebuild it rather than keep a stale mix
+    if (previous && (previous.weightColumn || undefined) !== (next.weightColumn || undefined)) {
+      record(`Change ${next.label} weight column`);
+      const deck = freshDeck(data[next.key], next.weightColumn || undefined);
+      setDecks((prev) => ({ ...prev, [next.key]: deck }));
+      emptyDiscards(next.key);
+    }
+  };
+
+  const removeCategory = (key: Category) => {
+    if (categories.length <= 1) return;
+    const hasCards = data[key].length > 0 || drawn.some((card) => card.category === key);
+    if (hasCards && !window.confirm(`Remove "${labelOf(key)}" with its loaded rows and drawn cards?`)) return;
+    const rest = categories.filter((c) => c.key !== key);
+    record(`Remove category ${labelOf(key)}`);
+    const without = <T,>(record: Record<Category, T>) => {
+      const { [key]: _removed, ...others } = record;
+      return others;
+    };
+    setCategories(rest);
+    setData(without);
+    setSources(without);
+    setDecks(without);
+    setDiscards(without);
+    setFaceDownDiscards(without);
+    setFilters(without);
+    setTally((prev) => forgetDraws(prev, [key]));
+    setRecipes((prev) =>
+      prev
+        .map((recipe) => ({ ...recipe, parts: recipe.parts.filter((part) => part.category !== key) }))
+        .filter((recipe) => recipe.parts.length > 0)
+    );
+    setDrawn((prev) => prev.filter((card) => card.category !== key));
+    if (selectedCategory === key) setSelectedCategory(rest[0].key);
   };
 
   const minLen = useMemo(() => {
@@ -232,238 +608,1245 @@ export default function App() {
   }, [data, selectedCategory]);
 
   const allLoaded = minLen > 0;
+  const remaining = decks[selectedCategory];
+  const weightColumn = weightColumnOf(selectedCategory);
 
-  useEffect(() => {
-    if (allLoaded && remaining.length === 0) {
-      setRemaining(Array.from({ length: minLen }, (_, i) => i));
+  const inactiveByCategory = useMemo(() => {
+    const result: Record<Category, Set<number>> = {};
+    categories.forEach(({ key, dedupeColumn }) => {
+      result[key] = inactiveRows(data[key] ?? [], sources[key] ?? [], dedupeColumn || undefined);
+    });
+    return result;
+  }, [categories, data, sources]);
+
+  const inactive = inactiveByCategory[selectedCategory];
+
+  const weightCheck = useMemo(() => {
+    if (!weightColumn) return null;
+    const { issues } = readWeights(data[selectedCategory], weightColumn, allowRepeats ? "weight" : "copies");
+    return { invalid: issues.filter((issue) => !issue.capped), capped: issues.filter((issue) => issue.capped) };
+  }, [data, selectedCategory, weightColumn, allowRepeats]);
+
+  const deckSize = useMemo(
+    () =>
+      allowRepeats
+        ? minLen - inactive.size
+        : buildDeck(data[selectedCategory], weightColumn).filter((i) => !inactive.has(i)).length,
+    [allowRepeats, minLen, data, selectedCategory, weightColumn, inactive]
+  );
+
+  const activeRemaining = useMemo(
+    () => matchingPositions(data[selectedCategory], remaining, NO_CONDITIONS, inactive).length,
+    [data, selectedCategory, remaining, inactive]
+  );
+
+  const conditions = filters[selectedCategory] ?? NO_CONDITIONS;
+  const filtering = activeConditions(conditions).length > 0;
+
+  const rulesFor = (category: Category): DrawRules => ({
+    allowRepeats,
+    weightColumn: weightColumnOf(category),
+    conditions: filters[category] ?? NO_CONDITIONS,
+    inactive: inactiveByCategory[category],
+  });
+
+  const selectedRules = useMemo(() => rulesFor(selectedCategory), [allowRepeats, categories, filters, inactiveByCategory, selectedCategory]);
+
+  const matchingInDeck = useMemo(
+    () => matchingPositions(data[selectedCategory], remaining, conditions, inactive).length,
+    [data, selectedCategory, remaining, conditions, inactive]
+  );
+
+  const matchingRows = useMemo(
+    () => data[selectedCategory].filter((row, i) => !inactive.has(i) && matchesFilters(row, conditions)).length,
+    [data, selectedCategory, conditions, inactive]
+  );
+
+  const selectedWeights = useMemo(
+    () => (allowRepeats ? repeatWeights(data[selectedCategory], { allowRepeats, weightColumn, conditions, inactive }) : null),
+    [allowRepeats, data, selectedCategory, weightColumn, conditions, inactive]
+  );
+
+  const canDraw = allowRepeats
+    ? allLoaded && (!selectedWeights || selectedWeights.some((w) => w > 0))
+    : matchingInDeck > 0;
+
+  const setConditions = (next: FilterCondition[]) =>
+    setFilters((prev) => ({ ...prev, [selectedCategory]: next }));
+
+  /**
+   * Loads parsed files into their categories. "replace" starts a category over
+   * (dropping its drawn and discarded cards, whose indices would no longer
+   * match); "append" adds the rows after the existing ones and shuffles them
+   * into the deck. Later files for the same category in one batch always append.
+   */
+  const loadFiles = (loads: FileLoad[], mode: LoadMode, defs: CategoryDef[] = categories) => {
+    const table = tableRef.current;
+    const nextData = { ...table.data };
+    const nextSources = { ...table.sources };
+    const nextDecks = { ...table.decks };
+    const nextDiscards = { ...table.discards };
+    const nextFaceDown = { ...table.faceDownDiscards };
+    const replaced = new Set<Category>();
+    const events: LogEvent[] = [];
+
+    loads.forEach(({ category, fileName, rows }) => {
+      const append = mode === "append" || replaced.has(category);
+      events.push({ kind: "load", category, text: `${append ? "Appended" : "Loaded"} ${rows.length} row${rows.length === 1 ? "" : "s"} from ${fileName}` });
+      const start = append ? (nextData[category] ?? []).length : 0;
+      nextData[category] = append ? [...(nextData[category] ?? []), ...rows] : rows;
+      nextSources[category] = [...(append ? nextSources[category] ?? [] : []), makeSource(fileName, start, rows.length)];
+      const added = buildDeck(rows, weightColumnOf(category, defs)).map((i) => i + start);
+      if (append) {
+        nextDecks[category] = added.reduce((deck, index) => returnToDeck(rngRef.current, deck, index, "shuffle"), nextDecks[category] ?? []);
+      } else {
+        nextDecks[category] = shuffleDeck(rngRef.current, added);
+        nextDiscards[category] = [];
+        nextFaceDown[category] = [];
+        replaced.add(category);
+      }
+    });
+
+    setData(nextData);
+    setSources(nextSources);
+    setDecks(nextDecks);
+    setDiscards(nextDiscards);
+    setFaceDownDiscards(nextFaceDown);
+    if (replaced.size > 0) {
+      setDrawn((prev) => prev.filter((card) => !replaced.has(card.category)));
+      setTally((prev) => forgetDraws(prev, [...replaced]));
     }
-  }, [allLoaded, minLen, remaining.length]);
+    logEvents(events);
+  };
 
-  const handleLoad = (key: keyof DataBundle) => (rows: Row[]) => {
-    setData((d) => ({ ...d, [key]: rows }));
-    // Clear existing draws / remaining to avoid mismatches
-    setRemaining([]);
-    setDrawn([]);
+  const toggleSource = (sourceId: string, enabled: boolean) => {
+    record(`${enabled ? "Enable" : "Disable"} source file`);
+    setSources((prev) => ({
+      ...prev,
+      [selectedCategory]: (prev[selectedCategory] ?? []).map((s) => (s.id === sourceId ? { ...s, enabled } : s)),
+    }));
   };
 
-  const drawOne = () => {
-    if (!allLoaded || minLen === 0) return;
+  /** Guests don't touch their mirrored table; the host applies the action and sends the result back. */
+  const sendIntent = (intent: TableIntent) => {
+    if (room?.hostId) roomRef.current?.send({ kind: "intent", intent }, room.hostId);
+  };
 
-    let index: number;
-    if (allowRepeats) {
-      index = Math.floor(Math.random() * minLen);
-    } else {
-      if (remaining.length === 0) return;
-      const rIdx = Math.floor(Math.random() * remaining.length);
-      index = remaining[rIdx];
-      const newRemaining = [...remaining];
-      newRemaining.splice(rIdx, 1);
-      setRemaining(newRemaining);
+  /**
+   * Draws from each category in turn; the resulting cards share one group when `group`
+   * is given, and go to `deal.owner`'s hand (face down if `deal.visibility` says so).
+   */
+  const drawCards = (parts: RecipePart[], label: string, group?: DrawGroup, { owner, visibility }: Deal = {}) => {
+    if (isGuest) {
+      sendIntent({ type: "draw", parts, label, group, owner, visibility });
+      return;
     }
+    // A player removed in the meantime (e.g. while a guest's intent was in flight) deals to the table
+    const target = players.some((p) => p.id === owner) ? owner : undefined;
+    const nextDecks = { ...decks };
+    const cards: Drawn[] = [];
+    const shortfalls: string[] = [];
 
-    const row = data[selectedCategory][index];
+    parts.forEach(({ category, count: asked }) => {
+      const rows = data[category];
+      if (!rows) return;
+      // Recipes from older sessions or save files may ask for more than the recipe form allows
+      const count = Math.min(MAX_DRAW_COUNT, asked);
+      const { indices, deck } = drawIndices(rngRef.current, rows, nextDecks[category], rulesFor(category), count);
+      nextDecks[category] = deck;
+      indices.forEach((index) => {
+        const source = sourceOf(sources[category] ?? [], index)?.fileName;
+        cards.push({ id: makeId("card"), index, row: rows[index], category, counters: initialCounters(countersOf(category), rows[index]), group, source, owner: target, visibility, repeat: allowRepeats || undefined });
+      });
+      if (indices.length < count) shortfalls.push(`${indices.length} of ${count} ${labelOf(category)}`);
+    });
+
+    if (cards.length > 0) {
+      record(label);
+      if (!allowRepeats) setDecks(nextDecks);
+      setDrawn((prev) => [...cards, ...prev]);
+      setTally((prev) => tallyDraws(prev, cards));
+      logEvents(
+        cards.map((card) => {
+          const where = target ? ` to ${playerName(target)}` : "";
+          return { kind: "draw", category: card.category, text: `${logName(card)}${where}${group ? ` (${group.label})` : ""}` };
+        })
+      );
+    }
+    const shortfall = shortfalls.length ? `Only drew ${shortfalls.join(", ")} — not enough matching cards left.` : null;
+    setDrawStatus(shortfall);
+    announce([cards.length > 0 ? describeDraw(cards) : "", shortfall ?? ""].filter(Boolean).join(" "));
+  };
 
-    const id = `${index}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
-    setDrawn((prev) => [{ id, index, row, category: selectedCategory }, ...prev]);
+  const drawSelected = () => {
+    if (!allLoaded) return;
+    const count = Math.min(MAX_DRAW_COUNT, Math.max(1, drawCount));
+    const group = count > 1 ? { id: makeId("group"), label: `${count} × ${labelOf(selectedCategory)}` } : undefined;
+    drawCards([{ category: selectedCategory, count }], group ? `Draw ${group.label}` : `Draw ${labelOf(selectedCategory)}`, group, deal);
   };
 
+  const drawRecipe = (recipe: Recipe) =>
+    drawCards(recipe.parts, `Recipe: ${recipe.name}`, { id: makeId("group"), label: recipe.name }, deal);
+
+  /** Rebuilds the selected deck from every row, including cards on the table, and empties its discards. */
   const reshuffle = () => {
     if (!allLoaded) return;
-    setRemaining(Array.from({ length: minLen }, (_, i) => i));
+    record(`Reshuffle ${labelOf(selectedCategory)}`);
+    const deck = freshDeck(data[selectedCategory], weightColumn);
+    setDecks((prev) => ({ ...prev, [selectedCategory]: deck }));
+    emptyDiscards(selectedCategory);
+    logEvents([{ kind: "reshuffle", category: selectedCategory, text: `Rebuilt the deck from all ${deck.length} cards` }]);
+  };
+
+  /** Shuffles only the discards back into the selected deck; cards in play stay put. */
+  const shuffleDiscardsIn = () => {
+    const pile = discards[selectedCategory];
+    if (pile.length === 0) return;
+    record(`Shuffle ${labelOf(selectedCategory)} discards in`);
+    const deck = shuffleDeck(rngRef.current, [...remaining, ...pile]);
+    setDecks((prev) => ({ ...prev, [selectedCategory]: deck }));
+    emptyDiscards(selectedCategory);
+    logEvents([{ kind: "reshuffle", category: selectedCategory, text: `Shuffled ${pile.length} discard${pile.length === 1 ? "" : "s"} back in` }]);
+  };
+
+  // Cards drawn with repeats never left their deck, so they don't go on the pile either
+  const discardCards = (cards: Drawn[]) => {
+    const piled = cards.filter((card) => !card.repeat);
+    const onto = (pile: DeckState, added: Drawn[]) => {
+      const next = { ...pile };
+      added.forEach(({ category, index }) => (next[category] = [...(next[category] ?? []), index]));
+      return next;
+    };
+    setDiscards((prev) => onto(prev, piled));
+    setFaceDownDiscards((prev) => onto(prev, piled.filter((card) => card.visibility === "hidden")));
   };
 
-  const clearAllCards = () => setDrawn([]);
+  const tableCards = drawn.filter((card) => !card.owner);
 
-  const rollOneToThree = () => {
-    setLastRoll(1 + Math.floor(Math.random() * 3));
-    setRollToken((t) => t + 1);
+  /** Discards every card on the table; cards in players' hands stay put. */
+  const clearAllCards = () => {
+    if (tableCards.length === 0) return;
+    record("Clear drawn cards");
+    // Oldest first, so the most recently drawn card ends on top of the pile
+    discardCards([...tableCards].reverse());
+    setDrawn((prev) => prev.filter((card) => card.owner));
+    logEvents([...tableCards].reverse().map((card) => ({ kind: "discard", category: card.category, text: logName(card) })));
   };
 
-  const handleBulkUpload = async (fileList: FileList | null) => {
-    if (!fileList || fileList.length === 0) return;
+  const dismissCard = (id: string) => {
+    if (isGuest) return sendIntent({ type: "dismiss", id });
+    const card = drawn.find((c) => c.id === id);
+    if (!card) return;
+    record("Discard card");
+    discardCards([card]);
+    setDrawn((prev) => prev.filter((c) => c.id !== id));
+    logEvents([{ kind: "discard", category: card.category, text: logName(card) }]);
+  };
+
+  const returnCard = (id: string, where: ReturnPosition) => {
+    if (isGuest) return sendIntent({ type: "return", id, where });
+    const card = drawn.find((c) => c.id === id);
+    if (!card) return;
+    record(`Return card to ${where === "shuffle" ? "deck" : `${where} of deck`}`);
+    if (!card.repeat) {
+      const deck = returnToDeck(rngRef.current, decks[card.category], card.index, where);
+      setDecks((prev) => ({ ...prev, [card.category]: deck }));
+    }
+    setDrawn((prev) => prev.filter((c) => c.id !== id));
+    logEvents([{ kind: "return", category: card.category, text: `${logName(card)} ${where === "shuffle" ? "shuffled into the deck" : `put on the ${where} of the deck`}` }]);
+  };
+
+  const returnDiscard = (position: number, where: ReturnPosition) => {
+    const index = discards[selectedCategory][position];
+    if (index === undefined) return;
+    record(`Return discard to ${where === "shuffle" ? "deck" : `${where} of deck`}`);
+    const deck = returnToDeck(rngRef.current, remaining, index, where);
+    setDecks((prev) => ({ ...prev, [selectedCategory]: deck }));
+    setDiscards((prev) => ({ ...prev, [selectedCategory]: prev[selectedCategory].filter((_, i) => i !== position) }));
+    setFaceDownDiscards((prev) => ({ ...prev, [selectedCategory]: removeIndices(prev[selectedCategory] ?? [], [index]) }));
+    const row = data[selectedCategory][index];
+    const faceDown = (faceDownDiscards[selectedCategory] ?? []).includes(index);
+    const name = faceDown ? "A face-down card" : row ? nameOf({ category: selectedCategory, row }) : "A missing row";
+    logEvents([{ kind: "return", category: selectedCategory, text: `${name} ${where === "shuffle" ? "shuffled from the discards into the deck" : `put from the discards on the ${where} of the deck`}` }]);
+  };
+
+  const setCardCounter = (id: string, counter: string, value: number) => {
+    if (isGuest) return sendIntent({ type: "counter", id, counter, value });
+    const card = drawn.find((c) => c.id === id);
+    const def = card && countersOf(card.category).find((c) => c.id === counter);
+    if (!card || !def || !Number.isFinite(value)) return;
+    const next = clampCounter(def, value);
+    if (counterValue(def, card.counters, card.row) === next) return;
+    record(`Change ${def.name}`);
+    setDrawn((prev) => prev.map((c) => (c.id === id ? { ...c, counters: { ...c.counters, [counter]: next } } : c)));
+    logEvents([{ kind: "counter", category: card.category, text: `${logName(card)}: ${def.name} ${counterValue(def, card.counters, card.row)} → ${next}` }]);
+  };
+
+  const playerName = (id?: string) => players.find((p) => p.id === id)?.name ?? "table";
+
+  const moveCard = (id: string, owner?: string) => {
+    if (isGuest) return sendIntent({ type: "move", id, owner });
+    const card = drawn.find((c) => c.id === id);
+    if (!card || card.owner === owner || (owner && !players.some((p) => p.id === owner))) return;
+    record(`Move card to ${owner ? `${playerName(owner)}'s hand` : "the table"}`);
+    setDrawn((prev) => prev.map((c) => (c.id === id ? { ...c, owner } : c)));
+  };
+
+  const setCardVisibility = (id: string, visibility: CardVisibility) => {
+    if (isGuest) return sendIntent({ type: "visibility", id, visibility });
+    const card = drawn.find((c) => c.id === id);
+    if (!card || (card.visibility ?? "revealed") === visibility) return;
+    record(visibility === "hidden" ? "Turn card face down" : "Reveal card");
+    setDrawn((prev) => prev.map((c) => (c.id === id ? { ...c, visibility } : c)));
+    if (visibility === "revealed") logEvents([{ kind: "reveal", category: card.category, text: `${nameOf(card)}${card.owner ? ` in ${playerName(card.owner)}'s hand` : ""}` }]);
+  };
+
+  const addPlayer = (name: string) => {
+    record(`Add player ${name}`);
+    setPlayers((prev) => [...prev, { id: makeId("player"), name }]);
+  };
+
+  /** Seats a room device at a player; a device holds one seat at a time. */
+  const assignDevice = (id: string, peerId?: string) =>
+    setPlayers((prev) => prev.map((p) => (p.id === id ? { ...p, peerId } : peerId && p.peerId === peerId ? { ...p, peerId: undefined } : p)));
+
+  const renamePlayer = (id: string, name: string) =>
+    setPlayers((prev) => prev.map((p) => (p.id === id ? { ...p, name } : p)));
+
+  const removePlayer = (id: string) => {
+    record(`Remove player ${playerName(id)}`);
+    setPlayers((prev) => prev.filter((p) => p.id !== id));
+    // Their hand goes back on the table rather than vanishing
+    setDrawn((prev) => prev.map((c) => (c.owner === id ? { ...c, owner: undefined } : c)));
+    if (localSeat === id) setLocalSeat(null);
+    if (deal.owner === id) setDeal((prev) => ({ ...prev, owner: undefined }));
+  };
+
+  const exportSave = () => {
+    downloadText(`card-drawer-${new Date().toISOString().slice(0, 10)}.json`, serializeSaveFile(currentSession()), "application/json");
+    setSaveStatus("Game exported.");
+  };
+
+  const exportLog = (entries: LogEntry[], format: "csv" | "markdown") => {
+    const date = new Date().toISOString().slice(0, 10);
+    if (format === "csv") downloadText(`card-drawer-log-${date}.csv`, logToCsv(entries, labelOf), "text/csv");
+    else downloadText(`card-drawer-log-${date}.md`, logToMarkdown(entries, labelOf), "text/markdown");
+  };
 
-    const files = Array.from(fileList).filter((file) => file.name.toLowerCase().endsWith(".csv"));
+  const exportCardImage = async (id: string, face: HTMLElement) => {
+    const card = drawn.find((c) => c.id === id);
+    if (!card) return;
+    const name = nameOf(card);
+    try {
+      const { blob, droppedImages } = await renderElementToPng(face);
+      downloadBlob(`${fileSlug(name)}.png`, blob);
+      setDrawStatus(
+        droppedImages > 0
+          ? `Saved ${name} as PNG without ${droppedImages} picture${droppedImages === 1 ? "" : "s"} its host doesn't allow copying.`
+          : `Saved ${name} as PNG.`
+      );
+    } catch (error) {
+      setDrawStatus(`Could not save ${name} as PNG: ${error instanceof CardImageError ? error.message : "the image could not be drawn."}`);
+    }
+  };
+
+  const isConcealed = (card: Drawn) => card.visibility === "hidden" && (!card.owner || card.owner !== seat);
+
+  /**
+   * Face-down cards are revealed, passed on, discarded, returned or marked only by the seat holding
+   * them (or the host); anyone else moving one into their own hand could look at it.
+   */
+  const mayHandle = (card: Drawn, holder: string | null) => card.visibility !== "hidden" || (!!card.owner && card.owner === holder);
+
+  /** Whether this screen's card controls would be accepted; the host applies its own actions to any card. */
+  const canHandle = (card: Drawn) => !isGuest || mayHandle(card, seat);
+
+  /** A screen-reader sentence for newly drawn cards, keeping face-down ones secret from this screen. */
+  const describeDraw = (cards: Drawn[]) => {
+    const names = cards.map((card) =>
+      isConcealed(card) ? `a face-down ${labelOf(card.category)} card` : `${nameOf(card)} (${labelOf(card.category)})`
+    );
+    const owners = new Set(cards.map((card) => card.owner));
+    const where = owners.size === 1 && cards[0].owner ? ` to ${playerName(cards[0].owner)}` : "";
+    return `Drew ${names.join(", ")}${where}.`;
+  };
+
+  /** What the print view offers as "drawn cards": everything in play this screen may see. */
+  // Memoised so the print view only re-lays out its pages when the cards actually change
+  const printableDrawn = useMemo(
+    (): PrintCard[] => drawn.filter((card) => !isConcealed(card)).map(({ id, category, index, row }) => ({ key: id, category, index, row })),
+    [drawn, seat]
+  );
+
+  /** A category's whole deck for printing: switched-off files left out, each row repeated by its copies if asked. */
+  const printableDeck = useCallback(
+    (category: Category, copies: boolean): PrintCard[] => {
+      const rows = data[category] ?? [];
+      const inactiveRows = inactiveByCategory[category];
+      return buildDeck(rows, copies ? weightColumnOf(category) : undefined)
+        .filter((index) => !inactiveRows?.has(index))
+        .sort((a, b) => a - b)
+        .map((index, n) => ({ key: `${index}-${n}`, category, index, row: rows[index] }));
+    },
+    [data, inactiveByCategory, categories]
+  );
+
+  const clearLog = () => {
+    if (window.confirm("Clear the session log? Exported copies are kept.")) setLog([]);
+  };
+
+  const applySession = (session: Session) => {
+    setCategories(session.categories);
+    setData(session.data);
+    setSources(session.sources);
+    setDecks(session.decks);
+    setDiscards(session.discards);
+    setFaceDownDiscards(session.faceDownDiscards);
+    setDrawn(session.drawn);
+    setPlayers(session.players);
+    setLocalSeat(null);
+    setDeal({});
+    setHistory(emptyHistory());
+    setFilters(session.filters);
+    setRecipes(session.recipes);
+    setAllowRepeats(session.allowRepeats);
+    setSelectedCategory(session.selectedCategory);
+    rngRef.current = createRng(session.rng.seed, session.rng.state);
+    setSeed(session.rng.seed);
+    setSeedDraft(session.rng.seed);
+    setRolls(session.rolls);
+    setLog(session.log);
+    setTally(session.tally);
+    setQuickRolls(session.quickRolls);
+    setRollError(null);
+    setBulkReport(null);
+    setPickerEpoch((n) => n + 1);
+  };
+
+  const importSave = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      applySession(parseSaveFile(await file.text()));
+      setSaveStatus(`Imported ${file.name}.`);
+    } catch (error) {
+      const message = error instanceof SaveFileError ? error.message : "Could not read the file.";
+      setSaveStatus(`Import failed: ${message}`);
+    } finally {
+      if (saveInputRef.current) saveInputRef.current.value = "";
+    }
+  };
+
+  const resetSession = () => {
+    setCategories(DEFAULT_CATEGORIES);
+    setData(emptyByCategory(DEFAULT_CATEGORIES, () => []));
+    setSources({});
+    setDecks(emptyByCategory(DEFAULT_CATEGORIES, () => []));
+    setDiscards(emptyByCategory(DEFAULT_CATEGORIES, () => []));
+    setFaceDownDiscards({});
+    setDrawn([]);
+    setPlayers([]);
+    setLocalSeat(null);
+    setDeal({});
+    setHistory(emptyHistory());
+    setFilters({});
+    setRecipes([]);
+    setDrawStatus(null);
+    setAllowRepeats(false);
+    setSelectedCategory(DEFAULT_CATEGORIES[0].key);
+    setRolls([]);
+    setLog([]);
+    setTally(EMPTY_TALLY);
+    setQuickRolls(DEFAULT_QUICK_ROLLS);
+    setRollError(null);
+    applySeed(randomSeed());
+    setBulkReport(null);
+    setSaveStatus(null);
+    // Remount the file pickers so their "Loaded:" labels reset too
+    setPickerEpoch((n) => n + 1);
+  };
+
+  const startNewSession = () => {
+    if (!window.confirm("Start a new session? Loaded CSVs, decks, drawn cards and counters will be cleared.")) return;
+    clearSession();
+    resetSession();
+  };
+
+  const recordRoll = (expression: string) => {
+    const result = rollDice(rngRef.current, expression);
+    setRolls((prev) => [{ id: makeId("roll"), at: Date.now(), result }, ...prev].slice(0, MAX_ROLL_HISTORY));
+    setTally((prev) => tallyRoll(prev, result));
+    logEvents([{ kind: "roll", text: `${result.expression} = ${result.total}: ${describeRoll(result)}` }]);
+  };
+
+  const roll = (expression: string) => {
+    try {
+      if (isGuest) {
+        // Check the syntax here so typos are reported straight away, then let the host's RNG roll it
+        parseDice(expression);
+        sendIntent({ type: "roll", expression });
+      } else {
+        recordRoll(expression);
+      }
+      setRollExpression(expression);
+      setRollError(null);
+    } catch (error) {
+      setRollError(error instanceof DiceSyntaxError ? error.message : "Could not roll that.");
+    }
+  };
+
+  const sharedData = (): PeerMessage => ({ kind: "data", data: { categories, data, sources } });
+  /**
+   * The table as the device `peerId` may see it. Face-down cards it doesn't hold lose everything that
+   * identifies them; deck order would give away the next draws, and deck contents which cards are out
+   * face down, so decks go out sorted with those cards folded back in. Cards discarded face down are
+   * folded back in the same way and left off the discard pile.
+   */
+  const sharedTable = (peerId: string): PeerMessage => {
+    const holder = seatOfPeer(peerId);
+    const secret = drawn.filter((card) => card.visibility === "hidden" && (!card.owner || card.owner !== holder));
+    const secretIds = new Set(secret.map((card) => card.id));
+    const guestDecks: DeckState = {};
+    const guestDiscards: DeckState = {};
+    Object.entries(decks).forEach(([category, deck]) => {
+      const buried = faceDownDiscards[category] ?? [];
+      const out = secret.filter((card) => card.category === category && !card.repeat).map((card) => card.index);
+      guestDecks[category] = [...deck, ...out, ...buried].sort((a, b) => a - b);
+      guestDiscards[category] = removeIndices(discards[category] ?? [], buried);
+    });
+    const buriedCards = Object.entries(faceDownDiscards).flatMap(([category, pile]) => pile.map((index) => ({ category, index })));
+    const guestDrawn = drawn.map((card) =>
+      secretIds.has(card.id)
+        ? { id: card.id, index: -1, row: {}, category: card.category, counters: {}, group: card.group, owner: card.owner, visibility: card.visibility }
+        : card
+    );
+    return {
+      kind: "table",
+      table: { decks: guestDecks, discards: guestDiscards, drawn: guestDrawn, players, rolls, log, tally: tallyDraws(tally, [...secret, ...buriedCards], -1), allowRepeats, filters },
+    };
+  };
+
+  /** A guest going back to its own table: whatever it had saved before joining, or a fresh one. */
+  const restoreOwnSession = () => {
+    const saved = loadSession();
+    if (saved) applySession(saved);
+    else resetSession();
+  };
+
+  /** Applies a guest's action with the same limits the host's own controls have; `from` is the guest's device. */
+  const applyIntent = (sent: TableIntent, from: string) => {
+    const intent = limitIntent(sent);
+    if (!intent) return;
+    const card = "id" in intent ? drawn.find((c) => c.id === intent.id) : undefined;
+    const holder = seatOfPeer(from);
+    switch (intent.type) {
+      case "draw": {
+        const parts = intent.parts.filter((part) => categories.some((c) => c.key === part.category));
+        if (parts.length === 0) break;
+        const owner = players.some((p) => p.id === intent.owner) ? intent.owner : undefined;
+        drawCards(parts, intent.label, intent.group, { owner, visibility: intent.visibility });
+        break;
+      }
+      case "move":
+        if (card && mayHandle(card, holder)) moveCard(intent.id, intent.owner);
+        break;
+      case "visibility":
+        if (card && (intent.visibility === "hidden" || mayHandle(card, holder))) setCardVisibility(intent.id, intent.visibility);
+        break;
+      case "dismiss":
+        if (card && mayHandle(card, holder)) dismissCard(intent.id);
+        break;
+      case "return":
+        if (card && mayHandle(card, holder)) returnCard(intent.id, intent.where);
+        break;
+      case "counter":
+        if (card && mayHandle(card, holder)) setCardCounter(intent.id, intent.counter, intent.value);
+        break;
+      case "roll":
+        try {
+          recordRoll(intent.expression);
+        } catch {
+          // The guest checked the syntax before sending; anything else is ignored
+        }
+        break;
+    }
+  };
+
+  /** A guest mirroring the host's card data or table; throws SaveFileError when the payload doesn't hold up. */
+  const applyHostMessage = (message: PeerMessage) => {
+    if (message.kind === "data") {
+      const shared = readSharedData(message.data);
+      hostDataRef.current = shared;
+      setCategories(shared.categories);
+      setData(shared.data);
+      setSources(shared.sources);
+      // Decks arrive in the next message; until then every new category needs an (empty) entry to render
+      setDecks((prev) => ({ ...emptyByCategory(shared.categories, () => []), ...prev }));
+      setDiscards((prev) => ({ ...emptyByCategory(shared.categories, () => []), ...prev }));
+      setSelectedCategory((prev) => (shared.categories.some((c) => c.key === prev) ? prev : shared.categories[0].key));
+    } else if (message.kind === "table") {
+      // The host always sends its card data first
+      if (!hostDataRef.current) throw new SaveFileError("The table arrived before the card data.");
+      const table = readSharedTable(message.table, hostDataRef.current);
+      setDecks(table.decks);
+      setDiscards(table.discards);
+      // The first table after joining replaces the guest's own; only later arrivals are news
+      const known = new Set(drawn.map((card) => card.id));
+      const added = table.drawn.filter((card) => !known.has(card.id));
+      if (added.length > 0 && !awaitingTableRef.current) announce(describeDraw(added));
+      awaitingTableRef.current = false;
+      setDrawn(table.drawn);
+      setPlayers(table.players);
+      setRolls(table.rolls);
+      setLog(table.log);
+      setTally(table.tally);
+      setAllowRepeats(table.allowRepeats);
+      setFilters(table.filters);
+    }
+  };
+
+  const handleRoomEvent = (role: RoomRole, event: RoomEvent) => {
+    switch (event.type) {
+      case "open":
+        awaitingTableRef.current = role === "guest";
+        hostIdRef.current = event.hostId;
+        hostDataRef.current = null;
+        setRoom({ role, code: event.room, selfId: event.id, hostId: event.hostId, peers: event.peers });
+        setRoomStatus(null);
+        break;
+      case "peer-joined":
+        setRoom((prev) => (prev ? { ...prev, peers: [...prev.peers, event.peer] } : prev));
+        if (role === "host") {
+          roomRef.current?.send(sharedData(), event.peer.id);
+          roomRef.current?.send(sharedTable(event.peer.id), event.peer.id);
+          setRoomStatus(`${event.peer.name} joined.`);
+        }
+        break;
+      case "peer-left": {
+        const peer = room?.peers.find((p) => p.id === event.id);
+        if (peer) setRoomStatus(`${peer.name} left.`);
+        setRoom((prev) => (prev ? { ...prev, peers: prev.peers.filter((p) => p.id !== event.id) } : prev));
+        break;
+      }
+      case "message": {
+        const { message } = event;
+        if (role === "host") {
+          if (message.kind === "intent") setInbox((prev) => [...prev, { from: event.from, intent: message.intent }]);
+          break;
+        }
+        // Only the host speaks for the table; another guest could otherwise broadcast a fake one
+        if (event.from !== hostIdRef.current) break;
+        try {
+          applyHostMessage(message);
+        } catch {
+          setRoomStatus("Ignored a malformed update from the host.");
+        }
+        break;
+      }
+      case "closed":
+        roomRef.current = null;
+        hostIdRef.current = null;
+        setRoom(null);
+        setInbox([]);
+        setRoomStatus(event.reason);
+        if (role === "guest") restoreOwnSession();
+        break;
+    }
+  };
+
+  // Events arrive between renders; always hand them to the latest handler
+  const roomEventRef = useRef(handleRoomEvent);
+  roomEventRef.current = handleRoomEvent;
+
+  const connectRoom = (role: RoomRole, code = "", name = "") => {
+    if (roomRef.current) return;
+    setRoom({ role, code: null, selfId: null, hostId: null, peers: [] });
+    setRoomStatus(null);
+    roomRef.current = openRoom(relayUrl.trim(), role === "host" ? { type: "host" } : { type: "join", room: code, name }, (event) =>
+      roomEventRef.current(role, event)
+    );
+  };
+
+  const leaveRoom = () => {
+    const wasGuest = isGuest;
+    roomRef.current?.close();
+    roomRef.current = null;
+    setRoom(null);
+    setInbox([]);
+    setRoomStatus(wasGuest ? "Left the room." : "Room closed.");
+    if (wasGuest) restoreOwnSession();
+  };
+
+  useEffect(() => () => roomRef.current?.close(), []);
+
+  // The host pushes its table to every guest whenever it changes
+  const hosting = room?.role === "host" && room.code !== null;
+  useEffect(() => {
+    if (hosting) roomRef.current?.send(sharedData());
+  }, [hosting, categories, data, sources]);
+  // Each guest gets its own copy, since what it may see of face-down cards depends on its seat
+  useEffect(() => {
+    if (hosting) room.peers.forEach((peer) => roomRef.current?.send(sharedTable(peer.id), peer.id));
+  }, [hosting, decks, discards, faceDownDiscards, drawn, players, rolls, log, tally, allowRepeats, filters]);
+
+  useEffect(() => {
+    if (inbox.length === 0) return;
+    applyIntent(inbox[0].intent, inbox[0].from);
+    setInbox((prev) => prev.slice(1));
+  }, [inbox]);
+
+  /**
+   * Loads many files at once, matching each file (or workbook sheet) to a category
+   * by name. Used by the bulk file input and by drag-and-drop of files and folders.
+   */
+  const loadBulkFiles = async (dropped: DroppedFile[]) => {
+    if (dropped.length === 0) return;
+
+    const skipped = dropped
+      // Dotfiles such as .DS_Store come along with dropped folders; nobody meant to load them
+      .filter(({ file }) => formatFromName(file.name) === null && !file.name.startsWith("."))
+      .map(({ path }) => path);
+    const files = dropped.filter(({ file }) => formatFromName(file.name) !== null);
     if (files.length === 0) {
-      setBulkStatus("No CSV files selected.");
-      if (bulkInputRef.current) bulkInputRef.current.value = "";
+      setBulkReport({ ...EMPTY_REPORT, skipped, note: "No CSV, TSV, JSON, XLSX or ODS files found." });
       return;
     }
 
     setBulkLoading(true);
-    setBulkStatus(null);
+    setBulkReport(null);
+    setBulkProgress(files.map(({ path }) => ({ name: path, state: "parsing" })));
+    const markProgress = (name: string, state: FileProgress["state"]) =>
+      setBulkProgress((prev) => prev.map((entry) => (entry.name === name ? { ...entry, state } : entry)));
+    const report: BulkReport = { ...EMPTY_REPORT, assigned: [], cleanups: [], skipped, failed: [] };
 
     try {
-      const parsed = await Promise.all(
-        files.map((file) =>
-          parseCsvFile(file)
-            .then((rows) => ({ file, rows }))
-            .catch(() => ({ file, rows: null as Row[] | null }))
+      const parsedFiles = await Promise.all(
+        files.map(({ file, path }) =>
+          parseDataFile(file)
+            .then((sheets) => {
+              markProgress(path, "done");
+              return sheets.map((csv) => {
+                // Bulk upload skips the preview: apply the default clean-up and report what it did
+                const { plan, headerIssues } = defaultPlan(csv);
+                const { rows, invalid } = applyPlan(csv, plan);
+                if (headerIssues.length || invalid.length) {
+                  report.cleanups.push({
+                    name: displayName(csv),
+                    detail: [
+                      headerIssues.length && `${headerIssues.length} header${headerIssues.length === 1 ? "" : "s"} fixed`,
+                      invalid.length && `${invalid.length} invalid row${invalid.length === 1 ? "" : "s"} dropped`,
+                    ]
+                      .filter(Boolean)
+                      .join(", "),
+                  });
+                }
+                if (rows.length === 0) report.failed.push({ name: displayName(csv), reason: "no usable rows" });
+                return { csv, rows };
+              });
+            })
+            .catch((reason: unknown) => {
+              markProgress(path, "failed");
+              report.failed.push({ name: path, reason: reason instanceof Error ? reason.message : "could not be read" });
+              return [];
+            })
         )
       );
+      // A workbook contributes one entry per sheet, each matched to a category by its sheet name
+      const parsed = parsedFiles.flat().filter(({ rows }) => rows.length > 0);
 
-      const assignments: string[] = [];
-      const failures: string[] = [];
-      const skipped: string[] = [];
-      const newData: Partial<DataBundle> = {};
-      const assigned = new Set<Category>();
+      const loads: FileLoad[] = [];
       const assignedCounts = new Map<Category, number>();
-      const unmatched: Array<{ file: File; rows: Row[] }> = [];
+      const nextCategories = [...categories];
+      const created: CategoryDef[] = [];
 
-      parsed.forEach(({ file, rows }) => {
-        if (!rows) {
-          failures.push(file.name);
-          return;
-        }
-        const detected = detectCategoryFromFilename(file.name);
+      parsed.forEach(({ csv, rows }) => {
+        const name = displayName(csv);
+        const detected = detectCategoryFromFilename(nextCategories, matchName(csv));
         if (detected) {
-          newData[detected] = rows;
-          assigned.add(detected);
+          loads.push({ category: detected, fileName: name, rows });
           const prevCount = assignedCounts.get(detected) ?? 0;
           assignedCounts.set(detected, prevCount + 1);
-          const overrideNote = prevCount > 0 ? " (overrides previous)" : "";
-          assignments.push(`${file.name} → ${getCategoryLabel(detected)}${overrideNote}`);
+          const merged = prevCount > 0 || bulkMode === "append";
+          report.assigned.push({ name, category: getCategoryLabel(nextCategories, detected), rows: rows.length, note: merged ? "merged" : undefined });
         } else {
-          unmatched.push({ file, rows });
-        }
-      });
-
-      const fallbackQueue = CATEGORY_ORDER.filter((category) => !assigned.has(category));
-
-      unmatched.forEach(({ file, rows }) => {
-        if (fallbackQueue.length === 0) {
-          skipped.push(file.name);
-          return;
+          // No category claims this file or sheet: give it its own, matching the same name next time
+          const label = csv.sheetName?.trim() || labelFromFilename(csv.fileName);
+          const stem = (csv.sheetName ?? csv.fileName.replace(/\.[^.]+$/, "")).trim().toLowerCase();
+          const category = createCategory(nextCategories, label, [stem]);
+          nextCategories.push(category);
+          created.push(category);
+          loads.push({ category: category.key, fileName: name, rows });
+          assignedCounts.set(category.key, 1);
+          report.assigned.push({ name, category: category.label, rows: rows.length, note: "new category" });
         }
-        const fallbackCategory = fallbackQueue.shift()!;
-        newData[fallbackCategory] = rows;
-        assigned.add(fallbackCategory);
-        const label = getCategoryLabel(fallbackCategory);
-        assignments.push(`${file.name} → ${label} (default)`);
       });
 
-      if (Object.keys(newData).length > 0) {
-        setData((prev) => ({ ...prev, ...newData }));
-        setRemaining([]);
-        setDrawn([]);
-      }
-
-      const statusParts: string[] = [];
-      if (assignments.length) {
-        statusParts.push(
-          `Loaded ${assignments.length} file${assignments.length === 1 ? "" : "s"}: ${assignments.join(", ")}`
-        );
-      }
-      if (skipped.length) {
-        statusParts.push(`Skipped (no slots left): ${skipped.join(", ")}`);
-      }
-      if (failures.length) {
-        statusParts.push(`Failed to parse: ${failures.join(", ")}`);
+      if (loads.length > 0) {
+        record(`Bulk upload (${loads.length} file${loads.length === 1 ? "" : "s"})`);
+        if (created.length > 0) setCategories((prev) => [...prev, ...created]);
+        loadFiles(loads, bulkMode, nextCategories);
       }
-      setBulkStatus(statusParts.join(" | ") || "No files were processed.");
+      setBulkReport(report);
     } catch (error) {
-      setBulkStatus("Bulk upload failed.");
+      setBulkReport({ ...report, note: "Bulk upload failed." });
     } finally {
       setBulkLoading(false);
+      setBulkProgress([]);
       if (bulkInputRef.current) bulkInputRef.current.value = "";
+      const busy = busyDropsRef.current;
+      busyDropsRef.current = [];
+      if (busy.length > 0) {
+        const ignored = busy.map((name) => ({ name, reason: "dropped while another upload was loading; drop it again" }));
+        setBulkReport((prev) => ({ ...(prev ?? EMPTY_REPORT), failed: [...(prev?.failed ?? []), ...ignored] }));
+      }
+    }
+  };
+
+  const handleBulkUpload = (fileList: FileList | null) => {
+    if (!fileList) return;
+    loadBulkFiles(Array.from(fileList).map((file) => ({ file, path: file.name })));
+  };
+
+  const handleDrop = (dropped: DroppedFile[]) => {
+    if (bulkLoading) {
+      busyDropsRef.current.push(...dropped.map(({ path }) => path));
+      return;
+    }
+    setPendingImport(null);
+    loadBulkFiles(dropped);
+  };
+
+  const handleDropFailed = () =>
+    setBulkReport({ ...EMPTY_REPORT, note: "The dropped files could not be read. Try “Bulk upload files” instead." });
+
+  /** Cards in the order they appear on screen: the table, then each player's hand. */
+  const cardOrder = [...tableCards, ...players.flatMap((player) => drawn.filter((card) => card.owner === player.id))].map((card) => card.id);
+  const cardOrderRef = useRef(cardOrder);
+  // Set when the palette discards a card, since the palette rather than the card has focus then
+  const pendingFocusRef = useRef<string | null>(null);
+
+  // A card leaving the table keeps focus through its exit animation and then drops it on the page;
+  // hand it to the neighbouring card (or the draw button) instead, and follow cards moved into a hand
+  useEffect(() => {
+    const previous = cardOrderRef.current;
+    cardOrderRef.current = cardOrder;
+    const active = focusedCardElement();
+    const id = active?.dataset.cardId ?? pendingFocusRef.current;
+    pendingFocusRef.current = null;
+    if (!id) return;
+    if (cardOrder.includes(id)) {
+      if (active) cardElements(id).find((element) => element !== active)?.focus();
+      return;
+    }
+    const at = previous.indexOf(id);
+    const neighbour = [...previous.slice(at + 1), ...previous.slice(0, Math.max(0, at)).reverse()].find((other) => cardOrder.includes(other));
+    const drawButton = document.getElementById("draw-button") as HTMLButtonElement | null;
+    const target = neighbour ? cardElements(neighbour).find((element) => element !== active) : drawButton && !drawButton.disabled ? drawButton : null;
+    (target ?? document.getElementById("app-title"))?.focus();
+  }, [drawn, players]);
+
+  const focusedCard = () => {
+    const id = focusedCardElement()?.dataset.cardId;
+    return id ? drawn.find((card) => card.id === id) : undefined;
+  };
+
+  /** Steps a card's first counter, as the + and − keys do. */
+  const stepCounter = (card: Drawn, direction: 1 | -1) => {
+    const def = countersOf(card.category)[0];
+    if (!def) return;
+    const next = clampCounter(def, counterValue(def, card.counters, card.row) + direction * def.step);
+    setCardCounter(card.id, def.id, next);
+    announce(`${def.name} ${next}`);
+  };
+
+  const switchCategory = (category: CategoryDef) => {
+    selectCategory(category.key);
+    announce(`Drawing from ${category.label}.`);
+  };
+
+  // The card that had focus when the palette opened, for its card commands
+  const paletteCardRef = useRef<string | undefined>(undefined);
+
+  const openPalette = () => {
+    paletteCardRef.current = focusedCard()?.id;
+    setPaletteOpen(true);
+  };
+
+  const commands = (): Command[] => {
+    const card = drawn.find((c) => c.id === paletteCardRef.current);
+    const cardName = card ? (isConcealed(card) ? "face-down card" : nameOf(card)) : "focused card";
+    const counter = card ? countersOf(card.category)[0] : undefined;
+    const label = labelOf(selectedCategory);
+    return [
+      { id: "draw", section: "Draw", label: `Draw from ${label}`, shortcut: "D", disabled: !canDraw, run: drawSelected },
+      ...recipes.map((recipe) => ({ id: `recipe-${recipe.id}`, section: "Draw", label: `Recipe: ${recipe.name}`, run: () => drawRecipe(recipe) })),
+      ...categories.map((category, i) => ({
+        id: `category-${category.key}`,
+        section: "Deck",
+        label: `Switch to ${category.label}`,
+        shortcut: i < 9 ? String(i + 1) : undefined,
+        run: () => switchCategory(category),
+      })),
+      { id: "reshuffle", section: "Deck", label: `Reshuffle ${label}`, shortcut: "S", disabled: isGuest || !allLoaded, run: reshuffle },
+      { id: "shuffle-discards", section: "Deck", label: `Shuffle ${label} discards in`, shortcut: "Shift+S", disabled: isGuest || discards[selectedCategory].length === 0, run: shuffleDiscardsIn },
+      {
+        id: "discard-card",
+        section: "Card",
+        label: `Discard ${cardName}`,
+        shortcut: "X",
+        disabled: !card || !canHandle(card),
+        run: () => {
+          if (!card) return;
+          pendingFocusRef.current = card.id;
+          dismissCard(card.id);
+        },
+      },
+      { id: "counter-up", section: "Card", label: `Increase ${counter?.name ?? "counter"} on ${cardName}`, shortcut: "+", disabled: !card || !counter || !canHandle(card), run: () => card && stepCounter(card, 1) },
+      { id: "counter-down", section: "Card", label: `Decrease ${counter?.name ?? "counter"} on ${cardName}`, shortcut: "−", disabled: !card || !counter || !canHandle(card), run: () => card && stepCounter(card, -1) },
+      { id: "roll", section: "Dice", label: `Roll ${rollExpression.trim() || "dice"}`, shortcut: "R", run: () => roll(rollExpression) },
+      ...quickRolls.map((expression) => ({ id: `quick-roll-${expression}`, section: "Dice", label: `Roll ${expression}`, run: () => roll(expression) })),
+      { id: "dice-input", section: "Dice", label: "Type a dice expression", run: () => document.getElementById("dice-expression")?.focus() },
+      { id: "clear", section: "Table", label: "Clear drawn cards", disabled: isGuest || tableCards.length === 0, run: clearAllCards },
+      { id: "undo", section: "Table", label: history.past.length ? `Undo: ${history.past[history.past.length - 1].label}` : "Undo", shortcut: "Ctrl+Z", disabled: isGuest || history.past.length === 0, run: undo },
+      { id: "redo", section: "Table", label: history.future.length ? `Redo: ${history.future[history.future.length - 1].label}` : "Redo", shortcut: "Ctrl+Shift+Z", disabled: isGuest || history.future.length === 0, run: redo },
+      { id: "stats", section: "View", label: statsOpen ? "Hide stats" : "Show stats", run: () => setStatsOpen((open) => !open) },
+      { id: "log", section: "View", label: logOpen ? "Hide session log" : "Show session log", run: () => setLogOpen((open) => !open) },
+      { id: "print", section: "Game", label: "Print cards", run: () => setPrinting(true) },
+      { id: "export", section: "Game", label: "Export game", disabled: isGuest, run: exportSave },
+      { id: "import", section: "Game", label: "Import game", disabled: isGuest, run: () => saveInputRef.current?.click() },
+      { id: "new-session", section: "Game", label: "New session", disabled: isGuest, run: startNewSession },
+    ];
+  };
+
+  const handleShortcut = (e: KeyboardEvent) => {
+    if (e.altKey || e.defaultPrevented) return;
+    const key = e.key.toLowerCase();
+    // Works even from a text field, so the palette is always one chord away
+    if ((e.ctrlKey || e.metaKey) && key === "k") {
+      e.preventDefault();
+      if (paletteOpen) setPaletteOpen(false);
+      else openPalette();
+      return;
+    }
+    // Open dialogs own the keyboard
+    if (paletteOpen || printing || pendingImport || isTypingTarget(e.target)) return;
+    if (e.ctrlKey || e.metaKey) {
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        redo();
+      }
+      return;
+    }
+
+    const focused = focusedCard();
+    const card = focused && canHandle(focused) ? focused : undefined;
+    let handled = true;
+    if (/^[1-9]$/.test(e.key) && categories[Number(e.key) - 1]) {
+      switchCategory(categories[Number(e.key) - 1]);
+    } else if (key === "d" && canDraw) {
+      drawSelected();
+    } else if (key === "r") {
+      roll(rollExpression);
+    } else if (e.key === "s" && !isGuest && allLoaded) {
+      reshuffle();
+      announce(`Reshuffled ${labelOf(selectedCategory)}.`);
+    } else if (e.key === "S" && !isGuest) {
+      shuffleDiscardsIn();
+    } else if ((key === "x" || e.key === "Delete") && card) {
+      dismissCard(card.id);
+    } else if ((e.key === "+" || e.key === "=") && card) {
+      stepCounter(card, 1);
+    } else if ((e.key === "-" || e.key === "_") && card) {
+      stepCounter(card, -1);
+    } else if (e.key === "?") {
+      openPalette();
+    } else {
+      handled = false;
     }
+    if (handled) e.preventDefault();
   };
 
+  const shortcutRef = useRef(handleShortcut);
+  shortcutRef.current = handleShortcut;
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => shortcutRef.current(e);
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  const renderCard = (card: Drawn) => (
+    <DrawnCard
+      key={card.id}
+      id={card.id}
+      index={card.index}
+      row={card.row}
+      categoryLabel={labelOf(card.category)}
+      template={templateOf(card.category)}
+      source={card.source}
+      counters={countersOf(card.category)}
+      values={card.counters}
+      owner={card.owner}
+      visibility={card.visibility}
+      // Face-down cards on the table are hidden from everyone; in a hand, from all but the owner
+      concealed={isConcealed(card)}
+      canHandle={canHandle(card)}
+      players={players}
+      onExportImage={exportCardImage}
+      onCounterChange={setCardCounter}
+      onDismiss={dismissCard}
+      onReturn={returnCard}
+      onMove={moveCard}
+      onVisibilityChange={setCardVisibility}
+    />
+  );
+
   return (
     <div className="min-h-[100dvh] w-full bg-gradient-to-br from-neutral-50 to-neutral-100 p-4 sm:p-6 text-neutral-900">
+      <div className="sr-only" role="status" aria-live="polite">{announcement}</div>
       <div className="max-w-7xl mx-auto grid gap-4">
-        <div className="flex items-center justify-between">
-          <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Card Drawer</h1>
-          <div className="flex items-center gap-2">
+        <div className="flex items-center justify-between gap-2 flex-wrap">
+          <h1 id="app-title" tabIndex={-1} className="text-2xl sm:text-3xl font-bold tracking-tight focus:outline-none">Card Drawer</h1>
+          <div className="flex items-center gap-2 flex-wrap">
             <div className="flex items-center gap-2 rounded-2xl border bg-white px-3 py-2">
               <Dice3 className="h-5 w-5" />
-              <Button onClick={rollOneToThree} className="rounded-xl">Roll 1–3</Button>
+              <Label htmlFor="dice-expression" className="sr-only">Dice expression</Label>
+              <Input
+                id="dice-expression"
+                value={rollExpression}
+                onChange={(e) => setRollExpression(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") roll(rollExpression);
+                }}
+                placeholder="2d6+1"
+                spellCheck={false}
+                className="h-9 w-28 font-mono text-sm"
+              />
+              <Button onClick={() => roll(rollExpression)} className="rounded-xl">Roll</Button>
               <motion.div
-                key={rollToken}
+                key={lastRoll?.id ?? "none"}
                 initial={{ scale: 0.9, opacity: 0.6 }}
                 animate={{ scale: [0.9, 1.15, 1], opacity: [0.6, 1, 1] }}
                 transition={{ duration: 0.35 }}
-                className="w-10 h-10 rounded-xl border flex items-center justify-center text-xl font-semibold select-none"
+                className="min-w-10 h-10 px-2 rounded-xl border flex items-center justify-center text-xl font-semibold select-none"
                 aria-live="polite"
+                title={lastRoll ? `${lastRoll.result.expression}: ${describeRoll(lastRoll.result)}` : undefined}
               >
-                {lastRoll ?? "—"}
+                {lastRoll?.result.total ?? "—"}
               </motion.div>
             </div>
+            <Button variant="secondary" className="gap-2" onClick={openPalette} title="All actions and their shortcuts (Ctrl/⌘+K)" aria-keyshortcuts="Control+K Meta+K">
+              <Keyboard className="h-4 w-4" /> Commands
+            </Button>
+            <Button variant="secondary" className="gap-2" onClick={() => setPrinting(true)} title="Lay out cards on printable pages">
+              <Printer className="h-4 w-4" /> Print
+            </Button>
+            {/* A guest's table belongs to the host; its own game is restored on leaving */}
+            {!isGuest && (
+              <>
+              <div className="flex items-center gap-2 rounded-2xl border bg-white px-3 py-2">
+                <Label htmlFor="seed" className="text-sm text-neutral-700">Seed</Label>
+                <Input
+                  id="seed"
+                  value={seedDraft}
+                  onChange={(e) => setSeedDraft(e.target.value)}
+                  onBlur={() => {
+                    if (seedDraft.trim() !== seed) applySeed(seedDraft);
+                  }}
+                  onKeyDown={(e) => {
+                    // Enter re-applies even an unchanged seed, restarting its sequence for a replay
+                    if (e.key === "Enter") applySeed(seedDraft);
+                  }}
+                  className="h-8 w-24 font-mono text-sm"
+                  spellCheck={false}
+                  title="Same seed + same actions = same draws and rolls. Changing it restarts the sequence."
+                />
+              </div>
+              <Button variant="secondary" className="gap-2" onClick={exportSave} title="Download this game as a JSON save file">
+                <Download className="h-4 w-4" /> Export
+              </Button>
+              <input
+                type="file"
+                accept=".json,application/json"
+                ref={saveInputRef}
+                onChange={(e) => importSave(e.target.files?.[0])}
+                className="hidden"
+              />
+              <Button variant="secondary" className="gap-2" onClick={() => saveInputRef.current?.click()} title="Restore a game from a JSON save file">
+                <FileUp className="h-4 w-4" /> Import
+              </Button>
+              <Button variant="secondary" className="gap-2" onClick={startNewSession}>
+                <RotateCcw className="h-4 w-4" /> New session
+              </Button>
+              </>
+            )}
           </div>
         </div>
 
+        {(rollError || lastRoll) && (
+          <div className="flex justify-end text-sm">
+            {rollError ? (
+              <span className="text-red-700" role="alert">{rollError}</span>
+            ) : (
+              lastRoll && (
+                <span className="flex items-center gap-2 flex-wrap justify-end">
+                  <span className="font-mono text-neutral-700">{lastRoll.result.expression}</span>
+                  <RollBreakdown result={lastRoll.result} />
+                  <span className="font-semibold">= {lastRoll.result.total}</span>
+                </span>
+              )
+            )}
+          </div>
+        )}
+
+        {saveStatus && (
+          <div className="text-sm text-neutral-700 text-right">{saveStatus}</div>
+        )}
+        {sessionSaveFailed && (
+          <div className="text-sm text-red-700 text-right" role="alert">
+            The browser would not store this session (storage full or disabled), so it won't survive a reload. Use <strong>Export</strong> to keep it.
+          </div>
+        )}
+
+        <Section title="Shared table" right={<div className="text-sm text-neutral-600">Play from several devices over a relay on your network.</div>}>
+          <RoomPanel
+            room={room}
+            status={roomStatus}
+            relayUrl={relayUrl}
+            onRelayUrlChange={setRelayUrl}
+            onHost={() => connectRoom("host")}
+            onJoin={(code, name) => connectRoom("guest", code, name)}
+            onLeave={leaveRoom}
+          />
+        </Section>
+
         <Section
-          title="Load your four CSVs"
+          title={isGuest ? "Draw" : "Load your CSVs"}
           right={
-            <div className="flex items-center gap-3 flex-wrap">
-              <div className="flex items-center gap-2">
-                <Label htmlFor="repeats" className="text-sm text-neutral-700">Allow repeats</Label>
-                <Switch id="repeats" checked={allowRepeats} onCheckedChange={setAllowRepeats} />
-              </div>
+            isGuest ? null : (
+              <div className="flex items-center gap-3 flex-wrap">
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="repeats" className="text-sm text-neutral-700">Allow repeats</Label>
+                  <Switch id="repeats" checked={allowRepeats} onCheckedChange={setAllowRepeats} />
+                </div>
 
-              <Button variant="secondary" className="gap-2" onClick={reshuffle} disabled={!allLoaded}>
-                <Shuffle className="h-4 w-4" /> Reshuffle deck
-              </Button>
-            </div>
+                <Button variant="secondary" className="gap-2" onClick={shuffleDiscardsIn} disabled={discards[selectedCategory].length === 0} title="Shuffle the discard pile back into the deck; cards in play stay out">
+                  <Shuffle className="h-4 w-4" /> Shuffle discards in
+                </Button>
+                <Button variant="secondary" className="gap-2" onClick={reshuffle} disabled={!allLoaded} title="Rebuild the deck from every row, including cards in play, and empty the discards">
+                  <Shuffle className="h-4 w-4" /> Reshuffle deck
+                </Button>
+              </div>
+            )
           }
         >
-          <div className="grid lg:grid-cols-2 gap-4">
-            <FilePicker id="characters" label="Characters CSV" onFile={handleLoad("characters")} />
-            <FilePicker id="items" label="Items CSV" onFile={handleLoad("items")} />
-            <FilePicker id="locations" label="Locations CSV" onFile={handleLoad("locations")} />
-            <FilePicker id="quests" label="Quests CSV" onFile={handleLoad("quests")} />
-          </div>
-
-          <div className="mt-6">
-            <div className="flex items-start gap-3">
-              <div className="grid gap-2 w-full">
-                <Label htmlFor="bulk-upload" className="text-neutral-800">Bulk upload CSVs</Label>
-                <div className="flex flex-wrap items-center gap-2">
-                  <Input
-                    id="bulk-upload"
-                    type="file"
-                    accept=".csv,text/csv"
-                    multiple
-                    ref={bulkInputRef}
-                    onChange={(e) => handleBulkUpload(e.target.files)}
-                    className="text-neutral-900 placeholder:text-neutral-500 file:text-neutral-900"
+          {!isGuest && (
+            <>
+              <div key={pickerEpoch} className="grid lg:grid-cols-2 gap-4">
+                {categories.map(({ key, label }) => (
+                  <FilePicker
+                    key={key}
+                    id={`csv-${key}`}
+                    label={`${label || key} file`}
+                    onFile={(sheets) => {
+                      // Open the sheet named for this category, if the workbook has one
+                      const parsed = sheets.find((sheet) => sheet.sheetName && detectCategoryFromFilename(categories, sheet.sheetName) === key) ?? sheets[0];
+                      setPendingImport({ category: key, parsed, sheets });
+                    }}
                   />
-                  <Button
-                    type="button"
-                    variant="secondary"
-                    onClick={() => bulkInputRef.current?.click()}
-                    className="gap-2"
-                    disabled={bulkLoading}
-                  >
-                    <Upload className="h-4 w-4" /> Upload multiple CSVs
-                  </Button>
-                  {bulkLoading && (
-                    <Badge variant="secondary" className="gap-1">
-                      <Loader2 className="h-3.5 w-3.5 animate-spin" /> Parsing…
-                    </Badge>
-                  )}
+                ))}
+              </div>
+
+              <div className="mt-6">
+                <div className="flex items-start gap-3">
+                  <div className="grid gap-2 w-full">
+                    <Label htmlFor="bulk-upload" className="text-neutral-800">Bulk upload files</Label>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Input
+                        id="bulk-upload"
+                        type="file"
+                        accept={DATA_FILE_ACCEPT}
+                        multiple
+                        ref={bulkInputRef}
+                        onChange={(e) => handleBulkUpload(e.target.files)}
+                        className="text-neutral-900 placeholder:text-neutral-500 file:text-neutral-900"
+                      />
+                      <Button
+                        type="button"
+                        variant="secondary"
+                        onClick={() => bulkInputRef.current?.click()}
+                        className="gap-2"
+                        disabled={bulkLoading}
+                      >
+                        <Upload className="h-4 w-4" /> Upload multiple files
+                      </Button>
+                      <div className="flex items-center gap-2">
+                        <Switch id="bulk-append" checked={bulkMode === "append"} onCheckedChange={(append) => setBulkMode(append ? "append" : "replace")} />
+                        <Label htmlFor="bulk-append" className="text-neutral-800">Append to existing</Label>
+                      </div>
+                      {bulkLoading && (
+                        <Badge variant="secondary" className="gap-1">
+                          <Loader2 className="h-3.5 w-3.5 animate-spin" /> Parsing…
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="text-xs text-neutral-600">Or drop files and folders anywhere on the page.</div>
+                    {bulkProgress.length > 0 && <BulkProgress files={bulkProgress} />}
+                    {bulkReport && <BulkSummary report={bulkReport} onDismiss={() => setBulkReport(null)} />}
+                  </div>
                 </div>
-                {bulkStatus && (
-                  <div className="text-sm text-neutral-700">{bulkStatus}</div>
-                )}
               </div>
-            </div>
-          </div>
+            </>
+          )}
 
           <div className="flex flex-wrap items-center gap-3 mt-4">
-            <Badge variant="outline">Characters: {data.characters.length}</Badge>
-            <Badge variant="outline">Items: {data.items.length}</Badge>
-            <Badge variant="outline">Locations: {data.locations.length}</Badge>
-            <Badge variant="outline">Quests: {data.quests.length}</Badge>
-            <Badge>Deck size: {minLen}</Badge>
+            {categories.map(({ key, label }) => (
+              <Badge key={key} variant="outline">
+                {label}: {data[key].length}
+                {!allowRepeats && data[key].length > 0 && ` (${decks[key].length} left)`}
+              </Badge>
+            ))}
+            <Badge>Deck size: {deckSize}</Badge>
+            {filtering && (
+              <Badge variant="secondary">
+                Matching: {allowRepeats ? matchingRows : matchingInDeck}
+              </Badge>
+            )}
             {!allowRepeats && (
-              <Badge variant="secondary">Remaining: {remaining.length}</Badge>
+              <Badge variant="secondary">Remaining: {activeRemaining}</Badge>
             )}
+            <Badge variant="secondary">Discards: {discards[selectedCategory].length}</Badge>
           </div>
 
+          {weightCheck && weightCheck.invalid.length > 0 && (
+            <div className="mt-3 rounded-xl border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-900">
+              {weightCheck.invalid.length} row{weightCheck.invalid.length === 1 ? "" : "s"} in {labelOf(selectedCategory)} {weightCheck.invalid.length === 1 ? "has" : "have"} no valid
+              {allowRepeats ? " weight" : " copies count"} in “{weightColumn}” and will never be drawn:{" "}
+              {weightCheck.invalid
+                .slice(0, 10)
+                .map(({ index, value }) => `row #${index + 1} (${value === "" ? "blank" : `“${value}”`})`)
+                .join(", ")}
+              {weightCheck.invalid.length > 10 && `, and ${weightCheck.invalid.length - 10} more`}
+            </div>
+          )}
+          {weightCheck && weightCheck.capped.length > 0 && (
+            <div className="mt-3 rounded-xl border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-900">
+              {weightCheck.capped.length} row{weightCheck.capped.length === 1 ? "" : "s"} in {labelOf(selectedCategory)} {weightCheck.capped.length === 1 ? "asks" : "ask"} for more
+              than {MAX_COPIES} copies in “{weightColumn}” and {weightCheck.capped.length === 1 ? "gets" : "get"} {MAX_COPIES}:{" "}
+              {weightCheck.capped
+                .slice(0, 10)
+                .map(({ index, value }) => `row #${index + 1} (“${value}”)`)
+                .join(", ")}
+              {weightCheck.capped.length > 10 && `, and ${weightCheck.capped.length - 10} more`}
+            </div>
+          )}
+
           <div className="mt-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
             <div className="flex items-center gap-2 flex-wrap">
               <span className="text-sm text-neutral-700">Draw from</span>
-              {CATEGORY_OPTIONS.map(({ key, label }) => (
+              {categories.map(({ key, label }) => (
                 <Button
                   key={key}
                   size="sm"
@@ -472,31 +1855,199 @@ export default function App() {
                   aria-pressed={selectedCategory === key}
                   className="rounded-lg"
                 >
-                  {label}
+                  {label || key}
                 </Button>
               ))}
+              {/* Guests draw with the host's filters */}
+              {!isGuest && (
+                <div className="basis-full">
+                  <FilterBuilder
+                    columns={Object.keys(data[selectedCategory][0] ?? {})}
+                    conditions={conditions}
+                    onChange={setConditions}
+                  />
+                </div>
+              )}
             </div>
 
             <div className="flex items-center gap-2">
-              <Button size="lg" className="rounded-2xl gap-2" onClick={drawOne} disabled={!allLoaded || (!allowRepeats && remaining.length === 0)}>
+              <Label htmlFor="draw-count" className="sr-only">Cards per draw</Label>
+              <Input
+                id="draw-count"
+                type="number"
+                min={1}
+                max={MAX_DRAW_COUNT}
+                value={drawCount}
+                onChange={(e) => setDrawCount(Math.min(MAX_DRAW_COUNT, Math.max(1, Math.floor(Number(e.target.value) || 1))))}
+                title="Cards per draw"
+                className="h-11 w-16 text-center text-neutral-900"
+              />
+              {players.length > 0 && (
+                <>
+                  <Label htmlFor="deal-to" className="sr-only">Deal to</Label>
+                  <select
+                    id="deal-to"
+                    value={deal.owner ?? ""}
+                    onChange={(e) => setDeal((prev) => ({ ...prev, owner: e.target.value || undefined }))}
+                    title="Where drawn cards go"
+                    className="h-11 px-3 rounded-xl border bg-white text-sm text-neutral-900 max-w-[10rem]"
+                  >
+                    <option value="">To table</option>
+                    {players.map((player) => (
+                      <option key={player.id} value={player.id}>To {player.name}</option>
+                    ))}
+                  </select>
+                </>
+              )}
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="deal-hidden"
+                  checked={deal.visibility === "hidden"}
+                  onCheckedChange={(hidden) => setDeal((prev) => ({ ...prev, visibility: hidden ? "hidden" : undefined }))}
+                />
+                <Label htmlFor="deal-hidden" className="text-sm text-neutral-700 whitespace-nowrap">Face down</Label>
+              </div>
+              <Button id="draw-button" size="lg" className="rounded-2xl gap-2" onClick={drawSelected} disabled={!canDraw} aria-keyshortcuts="D" title="Draw (D)">
                 <Layers className="h-5 w-5" /> Draw from deck
               </Button>
-              <Button variant="ghost" className="gap-2" onClick={clearAllCards} disabled={drawn.length === 0}>
-                <Trash2 className="h-5 w-5" /> Clear drawn cards
-              </Button>
+              {!isGuest && (
+                <>
+                  <Button variant="ghost" className="gap-2" onClick={clearAllCards} disabled={tableCards.length === 0}>
+                    <Trash2 className="h-5 w-5" /> Clear drawn cards
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={undo}
+                    disabled={history.past.length === 0}
+                    aria-label="Undo"
+                    title={history.past.length ? `Undo: ${history.past[history.past.length - 1].label} (Ctrl+Z)` : "Nothing to undo"}
+                  >
+                    <Undo2 className="h-5 w-5" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={redo}
+                    disabled={history.future.length === 0}
+                    aria-label="Redo"
+                    title={history.future.length ? `Redo: ${history.future[history.future.length - 1].label} (Ctrl+Shift+Z)` : "Nothing to redo"}
+                  >
+                    <Redo2 className="h-5 w-5" />
+                  </Button>
+                </>
+              )}
             </div>
           </div>
+          {drawStatus && (
+            <div className="mt-2 text-sm text-neutral-700">{drawStatus}</div>
+          )}
+        </Section>
+
+        {!isGuest && (
+          <>
+            <Section title={`${labelOf(selectedCategory)} discard pile`} right={<div className="text-sm text-neutral-600">Newest first. Return cards to the deck from here.</div>}>
+              <DiscardPile
+                label={labelOf(selectedCategory)}
+                rows={data[selectedCategory]}
+                discards={discards[selectedCategory]}
+                template={templateOf(selectedCategory)}
+                onReturn={returnDiscard}
+              />
+            </Section>
+
+            <Section title={`${labelOf(selectedCategory)} source files`} right={<div className="text-sm text-neutral-600">Switch files off to keep their rows out of draws.</div>}>
+              <SourcePanel
+                label={labelOf(selectedCategory)}
+                rows={data[selectedCategory]}
+                sources={sources[selectedCategory] ?? []}
+                dedupeColumn={categories.find((c) => c.key === selectedCategory)?.dedupeColumn}
+                hidden={inactive.size}
+                onToggle={toggleSource}
+                onDedupeChange={(column) => {
+                  const category = categories.find((c) => c.key === selectedCategory);
+                  if (category) updateCategory({ ...category, dedupeColumn: column || undefined });
+                }}
+              />
+            </Section>
+          </>
+        )}
+
+        <Section
+          title={`${labelOf(selectedCategory)} stats`}
+          right={
+            <Button variant="ghost" size="sm" onClick={() => setStatsOpen((open) => !open)} aria-expanded={statsOpen}>
+              {statsOpen ? "Hide" : "Show"}
+            </Button>
+          }
+        >
+          {statsOpen ? (
+            <StatsPanel
+              key={selectedCategory}
+              category={selectedCategory}
+              label={labelOf(selectedCategory)}
+              rows={data[selectedCategory]}
+              deck={remaining}
+              rules={selectedRules}
+              tally={tally}
+              onResetTally={isGuest ? undefined : () => setTally(EMPTY_TALLY)}
+            />
+          ) : (
+            <div className="text-sm text-neutral-600">What is left in the deck by any column, the chance of drawing each value, and how past draws and dice rolls came out.</div>
+          )}
+        </Section>
+
+        <Section title="Dice" right={<div className="text-sm text-neutral-600">Quick rolls and history. The latest roll is shown in the header.</div>}>
+          <DicePanel
+            quickRolls={quickRolls}
+            rolls={rolls}
+            currentExpression={rollExpression}
+            onRoll={roll}
+            onQuickRollsChange={setQuickRolls}
+            onClearHistory={() => setRolls([])}
+          />
+        </Section>
+
+        <Section title="Recipes" right={<div className="text-sm text-neutral-600">Draw from several categories in one click.</div>}>
+          <RecipePanel categories={categories} recipes={recipes} onChange={setRecipes} onDraw={drawRecipe} />
         </Section>
 
-        <Section title="Drawn cards" right={<div className="text-sm text-neutral-600">Showing only the selected category's details for each drawn card. Use markers to keep track.</div>}>
-          {drawn.length === 0 ? (
+        {!isGuest && (
+          <Section title="Categories">
+            <CategoryManager categories={categories} data={data} onChange={updateCategory} onAdd={addCategory} onRemove={removeCategory} />
+          </Section>
+        )}
+
+        <Section title="Drawn cards" right={<div className="text-sm text-neutral-600">Showing only the selected category's details for each drawn card. Use counters to keep track.</div>}>
+          {tableCards.length === 0 ? (
             <EmptyState title="No cards drawn yet" subtitle="Load any CSV above, choose a category button, then press “Draw from deck”." />
           ) : (
             <div className="max-h-[90vh] md:max-h-[880px] md:min-h-[620px] overflow-y-auto pr-2 pb-1">
-              <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-3 sm:gap-4 auto-rows-fr">
+              <div className="grid gap-3 sm:gap-4">
                 <AnimatePresence initial={false}>
-                  {drawn.map(({ id, index, row, category }) => (
-                    <DrawnCard key={id} id={id} index={index} row={row} category={category} onDismiss={(removeId) => setDrawn((d) => d.filter((c) => c.id !== removeId))} />
+                  {segmentDrawn(tableCards).map((segment) => (
+                    <motion.div
+                      key={segment.key}
+                      layout
+                      initial={{ opacity: 0 }}
+                      animate={{ opacity: 1 }}
+                      exit={{ opacity: 0 }}
+                      className={segment.group ? "rounded-2xl border-2 border-dashed border-neutral-300 p-2 sm:p-3" : ""}
+                    >
+                      {segment.group && (
+                        <div className="flex items-center gap-2 mb-2 px-1">
+                          <Badge>{segment.group.label}</Badge>
+                          <span className="text-xs text-neutral-600">
+                            {segment.cards.length} card{segment.cards.length === 1 ? "" : "s"} drawn together
+                          </span>
+                        </div>
+                      )}
+                      <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-3 sm:gap-4 auto-rows-fr">
+                        <AnimatePresence initial={false}>
+                          {segment.cards.map(renderCard)}
+                        </AnimatePresence>
+                      </div>
+                    </motion.div>
                   ))}
                 </AnimatePresence>
               </div>
@@ -504,6 +2055,90 @@ export default function App() {
           )}
         </Section>
 
+        <Section title="Players" right={<div className="text-sm text-neutral-600">Deal cards into hands with the target next to “Draw from deck”.</div>}>
+          <div className="grid gap-4">
+            <PlayersPanel
+              players={players}
+              seat={seat}
+              editable={!isGuest}
+              devices={room?.selfId ? [{ id: room.selfId, name: isGuest ? "This device" : "This device (host)" }, ...room.peers] : room ? [] : null}
+              onSeatChange={setLocalSeat}
+              onAssignDevice={assignDevice}
+              onAdd={addPlayer}
+              onRename={renamePlayer}
+              onRemove={removePlayer}
+            />
+            {players.map((player) => {
+              const hand = drawn.filter((card) => card.owner === player.id);
+              return (
+                <div key={player.id} className="grid gap-2">
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-semibold text-neutral-900">{player.name || "Unnamed player"}</h3>
+                    <Badge variant="outline">{hand.length} card{hand.length === 1 ? "" : "s"}</Badge>
+                    {seat === player.id && <Badge variant="secondary">You</Badge>}
+                  </div>
+                  {hand.length === 0 ? (
+                    <div className="text-sm text-neutral-600">No cards in hand.</div>
+                  ) : (
+                    <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-3 sm:gap-4 auto-rows-fr">
+                      <AnimatePresence initial={false}>{hand.map(renderCard)}</AnimatePresence>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </Section>
+
+        <Section
+          title="Session log"
+          right={
+            <Button variant="ghost" size="sm" onClick={() => setLogOpen((open) => !open)} aria-expanded={logOpen}>
+              {logOpen ? "Hide" : `Show ${log.length} event${log.length === 1 ? "" : "s"}`}
+            </Button>
+          }
+        >
+          {logOpen ? (
+            <LogPanel entries={log} categories={categories} onExport={exportLog} onClear={isGuest ? undefined : clearLog} />
+          ) : (
+            <div className="text-sm text-neutral-600">Every draw, discard, reshuffle, roll, counter change and load, with the time it happened.</div>
+          )}
+        </Section>
+
+        {!isGuest && <DropOverlay onDrop={handleDrop} onDropFailed={handleDropFailed} />}
+
+        <AnimatePresence>
+          {paletteOpen && <CommandPalette commands={commands()} onClose={() => setPaletteOpen(false)} />}
+        </AnimatePresence>
+
+        {printing && (
+          <PrintView
+            categories={categories}
+            initialCategory={selectedCategory}
+            drawnCards={printableDrawn}
+            deckCards={printableDeck}
+            onClose={() => setPrinting(false)}
+          />
+        )}
+
+        {pendingImport && (
+          <ImportPreview
+            key={`${pendingImport.category}-${displayName(pendingImport.parsed)}`}
+            parsed={pendingImport.parsed}
+            sheets={pendingImport.sheets}
+            onSheetChange={(parsed) => setPendingImport((prev) => (prev ? { ...prev, parsed } : prev))}
+            categoryLabel={labelOf(pendingImport.category)}
+            canAppend={data[pendingImport.category].length > 0}
+            onConfirm={(rows, mode) => {
+              const { category, parsed } = pendingImport;
+              record(`${mode === "append" ? "Append to" : "Load"} ${labelOf(category)} file`);
+              loadFiles([{ category, fileName: displayName(parsed), rows }], mode);
+              setPendingImport(null);
+            }}
+            onCancel={() => setPendingImport(null)}
+          />
+        )}
+
         <div className="text-xs text-neutral-600 text-center py-2">
           Tip: Pick the category button you want to draw from. Each draw shows the row from the chosen CSV only — files do not need to align across sheets anymore.
         </div>
@@ -0,0 +1,99 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, Check, Loader2, X } from "lucide-react";
+
+export type FileProgress = { name: string; state: "parsing" | "done" | "failed" };
+
+export type BulkReport = {
+  assigned: Array<{ name: string; category: string; rows: number; note?: string }>;
+  cleanups: Array<{ name: string; detail: string }>;
+  /** Files the loader doesn't understand, by path. */
+  skipped: string[];
+  failed: Array<{ name: string; reason: string }>;
+  /** One-line message shown above the lists, e.g. when nothing could be loaded at all. */
+  note?: string;
+};
+
+export const EMPTY_REPORT: BulkReport = { assigned: [], cleanups: [], skipped: [], failed: [] };
+
+export function BulkProgress({ files }: { files: FileProgress[] }) {
+  const done = files.filter((f) => f.state !== "parsing").length;
+  return (
+    <div className="grid gap-1 text-sm" aria-live="polite">
+      <div className="text-neutral-700">Reading {done} of {files.length} file{files.length === 1 ? "" : "s"}…</div>
+      <ul className="grid gap-0.5 max-h-40 overflow-y-auto">
+        {files.map(({ name, state }) => (
+          <li key={name} className="flex items-center gap-2 min-w-0">
+            {state === "parsing" && <Loader2 className="h-3.5 w-3.5 shrink-0 animate-spin text-neutral-500" />}
+            {state === "done" && <Check className="h-3.5 w-3.5 shrink-0 text-green-700" />}
+            {state === "failed" && <X className="h-3.5 w-3.5 shrink-0 text-red-700" />}
+            <span className="truncate text-neutral-800">{name}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function ReportList({ title, tone, children }: { title: string; tone: "ok" | "warn" | "error"; children: React.ReactNode }) {
+  const color = tone === "ok" ? "text-neutral-800" : tone === "warn" ? "text-amber-900" : "text-red-700";
+  return (
+    <div className={`grid gap-0.5 ${color}`}>
+      <div className="font-medium">{title}</div>
+      <ul className="grid gap-0.5 max-h-40 overflow-y-auto pl-4 list-disc">{children}</ul>
+    </div>
+  );
+}
+
+export function BulkSummary({ report, onDismiss }: { report: BulkReport; onDismiss: () => void }) {
+  const { assigned, cleanups, skipped, failed, note } = report;
+  const empty = assigned.length + cleanups.length + skipped.length + failed.length === 0;
+
+  return (
+    <div className="rounded-xl border bg-white px-3 py-2 grid gap-2 text-sm" role="status">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge variant="secondary">{assigned.length} loaded</Badge>
+          {skipped.length > 0 && <Badge variant="outline">{skipped.length} skipped</Badge>}
+          {failed.length > 0 && <Badge variant="outline">{failed.length} failed</Badge>}
+        </div>
+        <Button size="icon" variant="ghost" onClick={onDismiss} aria-label="Dismiss upload summary">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      {(note || empty) && <div className="text-neutral-700">{note ?? "No files were processed."}</div>}
+      {assigned.length > 0 && (
+        <ReportList title="Loaded" tone="ok">
+          {assigned.map(({ name, category, rows, note: detail }, i) => (
+            <li key={i}>
+              <span className="font-medium">{name}</span> → {category} ({rows} row{rows === 1 ? "" : "s"}{detail ? `, ${detail}` : ""})
+            </li>
+          ))}
+        </ReportList>
+      )}
+      {cleanups.length > 0 && (
+        <ReportList title="Cleaned up" tone="warn">
+          {cleanups.map(({ name, detail }, i) => (
+            <li key={i}><span className="font-medium">{name}</span>: {detail}</li>
+          ))}
+        </ReportList>
+      )}
+      {skipped.length > 0 && (
+        <ReportList title="Skipped (not a supported format)" tone="warn">
+          {skipped.map((name, i) => <li key={i}>{name}</li>)}
+        </ReportList>
+      )}
+      {failed.length > 0 && (
+        <ReportList title="Failed" tone="error">
+          {failed.map(({ name, reason }, i) => (
+            <li key={i} className="flex items-start gap-1">
+              <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+              <span><span className="font-medium">{name}</span>: {reason}</span>
+            </li>
+          ))}
+        </ReportList>
+      )}
+    </div>
+  );
+}
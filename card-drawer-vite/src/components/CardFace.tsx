@@ -0,0 +1,47 @@
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { FormattedText } from "@/components/FormattedText";
+import { isImageValue, layoutRow, type CardTemplate } from "@/lib/templates";
+import type { Row } from "@/lib/types";
+
+/** The printable part of a card: heading and templated fields, without any controls. `eager` loads pictures up front, for printing. */
+export function CardFace({ row, index, categoryLabel, template, actions, eager }: { row: Row; index: number; categoryLabel: string; template?: CardTemplate; actions?: React.ReactNode; eager?: boolean; }) {
+  const { title, subtitle, fields } = layoutRow(row, template);
+
+  return (
+    <>
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2 mb-1 flex-wrap">
+            <Badge variant="secondary">Row #{index + 1}</Badge>
+            {title && <Badge variant="outline">{categoryLabel}</Badge>}
+          </div>
+          <h3 className="text-xl font-semibold tracking-tight text-neutral-900 break-words">
+            {title ? <FormattedText text={title} /> : categoryLabel}
+          </h3>
+          {subtitle && (
+            <div className="text-sm text-neutral-600 mt-0.5 break-words"><FormattedText text={subtitle} /></div>
+          )}
+        </div>
+        {actions}
+      </div>
+
+      <div className="grid gap-3 mt-4">
+        <dl className="grid gap-2 text-sm text-neutral-900">
+          {fields.map(([k, v]) => (
+            <div key={k} className="grid gap-1">
+              <dt className="text-xs font-medium uppercase tracking-wide text-neutral-500">{k}</dt>
+              <dd className="font-medium break-words text-neutral-900">
+                {isImageValue(v) ? (
+                  <img src={v.trim()} alt={title ?? k} loading={eager ? "eager" : "lazy"} className="max-h-48 w-full rounded-xl object-contain border bg-neutral-50" />
+                ) : (
+                  <FormattedText text={v} />
+                )}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,152 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Gauge, LayoutTemplate, PlusCircle, Trash2 } from "lucide-react";
+import { TemplateEditor } from "@/components/TemplateEditor";
+import { CounterEditor } from "@/components/CounterEditor";
+import { parseMatchTokens } from "@/lib/categories";
+import type { Category, CategoryDef, DataBundle } from "@/lib/types";
+
+function CategoryRow({ category, columns, canRemove, onChange, onRemove }: { category: CategoryDef; columns: string[]; canRemove: boolean; onChange: (next: CategoryDef) => void; onRemove: (key: Category) => void; }) {
+  const [matchesDraft, setMatchesDraft] = useState(category.matches.join(", "));
+  const [editingLayout, setEditingLayout] = useState(false);
+  const [editingCounters, setEditingCounters] = useState(false);
+
+  return (
+    <div className="grid gap-2">
+      <div className="grid sm:grid-cols-[1fr_1.5fr_1fr_auto] gap-2 items-center">
+        <Input
+          value={category.label}
+          onChange={(e) => onChange({ ...category, label: e.target.value })}
+          aria-label={`Name of ${category.label || category.key}`}
+          className="text-neutral-900"
+        />
+        <Input
+          value={matchesDraft}
+          onChange={(e) => setMatchesDraft(e.target.value)}
+          onBlur={() => {
+            const matches = parseMatchTokens(matchesDraft);
+            setMatchesDraft(matches.join(", "));
+            onChange({ ...category, matches });
+          }}
+          placeholder="filename tokens, comma-separated"
+          aria-label={`Filename tokens for ${category.label || category.key}`}
+          className="text-neutral-900 placeholder:text-neutral-500"
+        />
+        <select
+          value={category.weightColumn ?? ""}
+          onChange={(e) => onChange({ ...category, weightColumn: e.target.value || undefined })}
+          aria-label={`Weight column for ${category.label || category.key}`}
+          title="Copies per row without repeats, draw weight with repeats"
+          className="h-10 px-3 rounded-xl border bg-white text-sm text-neutral-900"
+        >
+          <option value="">Uniform</option>
+          {/* Keep a configured column selectable even before its CSV is loaded */}
+          {category.weightColumn && !columns.includes(category.weightColumn) && (
+            <option value={category.weightColumn}>{category.weightColumn}</option>
+          )}
+          {columns.map((column) => (
+            <option key={column} value={column}>{column}</option>
+          ))}
+        </select>
+        <div className="flex items-center">
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={() => setEditingLayout((open) => !open)}
+            aria-expanded={editingLayout}
+            title="Card layout"
+          >
+            <LayoutTemplate className="h-5 w-5" />
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={() => setEditingCounters((open) => !open)}
+            aria-expanded={editingCounters}
+            title="Card counters"
+          >
+            <Gauge className="h-5 w-5" />
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={() => onRemove(category.key)}
+            disabled={!canRemove}
+            title={canRemove ? "Remove category" : "At least one category is needed"}
+          >
+            <Trash2 className="h-5 w-5" />
+          </Button>
+        </div>
+      </div>
+      {editingLayout && (
+        <div className="rounded-xl border bg-neutral-50 p-3 mb-2">
+          <TemplateEditor
+            id={`template-${category.key}`}
+            columns={columns}
+            template={category.template}
+            onChange={(template) => onChange({ ...category, template })}
+          />
+        </div>
+      )}
+      {editingCounters && (
+        <div className="rounded-xl border bg-neutral-50 p-3 mb-2">
+          <CounterEditor
+            id={`counters-${category.key}`}
+            columns={columns}
+            counters={category.counters}
+            onChange={(counters) => onChange({ ...category, counters })}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function CategoryManager({ categories, data, onChange, onAdd, onRemove }: { categories: CategoryDef[]; data: DataBundle; onChange: (next: CategoryDef) => void; onAdd: (label: string) => void; onRemove: (key: Category) => void; }) {
+  const [newLabel, setNewLabel] = useState("");
+
+  const add = () => {
+    if (!newLabel.trim()) return;
+    onAdd(newLabel);
+    setNewLabel("");
+  };
+
+  return (
+    <div className="grid gap-2">
+      <div className="hidden sm:grid sm:grid-cols-[1fr_1.5fr_1fr_auto] gap-2 text-xs font-medium uppercase tracking-wide text-neutral-500">
+        <span>Name</span>
+        <span>Matches filenames containing</span>
+        <span>Weight / copies column</span>
+        <span className="w-[7rem]" />
+      </div>
+      {categories.map((category) => (
+        <CategoryRow
+          key={category.key}
+          category={category}
+          columns={Object.keys(data[category.key]?.[0] ?? {})}
+          canRemove={categories.length > 1}
+          onChange={onChange}
+          onRemove={onRemove}
+        />
+      ))}
+      <div className="flex items-center gap-2 mt-1">
+        <Label htmlFor="new-category" className="sr-only">New category name</Label>
+        <Input
+          id="new-category"
+          value={newLabel}
+          onChange={(e) => setNewLabel(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") add();
+          }}
+          placeholder="New category, e.g. Events"
+          className="text-neutral-900 placeholder:text-neutral-500"
+        />
+        <Button variant="secondary" className="gap-2" onClick={add} disabled={!newLabel.trim()}>
+          <PlusCircle className="h-4 w-4" /> Add category
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import React, { useEffect, useRef, useState } from "react";
+import { motion } from "framer-motion";
+import { Input } from "@/components/ui/input";
+import { Search } from "lucide-react";
+import { searchCommands, type Command } from "@/lib/commands";
+
+export function CommandPalette({ commands, onClose }: { commands: Command[]; onClose: () => void }) {
+  const [query, setQuery] = useState("");
+  const [active, setActive] = useState(0);
+  const listRef = useRef<HTMLUListElement | null>(null);
+  const dialogRef = useRef<HTMLDivElement | null>(null);
+  const matches = searchCommands(commands, query).filter((command) => !command.disabled);
+  const current = Math.min(active, Math.max(0, matches.length - 1));
+
+  // Give focus back to whatever had it before the palette opened (a card, a button) once it closes,
+  // unless the command that ran put it somewhere else on purpose
+  useEffect(() => {
+    const previous = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    const dialog = dialogRef.current;
+    return () => {
+      const focus = document.activeElement;
+      const stranded = !focus || focus === document.body || !!dialog?.contains(focus);
+      if (stranded && previous?.isConnected) previous.focus();
+    };
+  }, []);
+
+  useEffect(() => {
+    listRef.current?.querySelector<HTMLElement>(`[data-index="${current}"]`)?.scrollIntoView({ block: "nearest" });
+  }, [current]);
+
+  const run = (command: Command | undefined) => {
+    if (!command) return;
+    onClose();
+    command.run();
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        setActive((current + 1) % Math.max(1, matches.length));
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        setActive((current - 1 + matches.length) % Math.max(1, matches.length));
+        break;
+      case "Enter":
+        e.preventDefault();
+        run(matches[current]);
+        break;
+      case "Escape":
+        e.preventDefault();
+        onClose();
+        break;
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 bg-black/40 flex items-start justify-center p-3 pt-[12vh]"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <motion.div
+        initial={{ y: -8 }}
+        animate={{ y: 0 }}
+        exit={{ y: -8 }}
+        ref={dialogRef}
+        className="w-full max-w-lg rounded-2xl border bg-white shadow-xl p-3 grid gap-2 text-neutral-900"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+        onKeyDown={onKeyDown}
+      >
+        <div className="relative">
+          <Search className="h-4 w-4 text-neutral-500 absolute left-3 top-1/2 -translate-y-1/2" />
+          <Input
+            autoFocus
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setActive(0);
+            }}
+            placeholder="Type a command…"
+            role="combobox"
+            aria-expanded="true"
+            aria-controls="command-list"
+            aria-activedescendant={matches[current] ? `command-${matches[current].id}` : undefined}
+            className="pl-9"
+          />
+        </div>
+        {matches.length === 0 ? (
+          <div className="px-2 py-3 text-sm text-neutral-600">No matching commands.</div>
+        ) : (
+          <ul id="command-list" ref={listRef} role="listbox" className="max-h-80 overflow-y-auto grid gap-0.5">
+            {matches.map((command, i) => (
+              <li
+                key={command.id}
+                id={`command-${command.id}`}
+                data-index={i}
+                role="option"
+                aria-selected={i === current}
+                onMouseMove={() => setActive(i)}
+                onClick={() => run(command)}
+                className={`flex items-center justify-between gap-3 rounded-lg px-2 py-1.5 text-sm cursor-pointer ${i === current ? "bg-neutral-900 text-white" : "text-neutral-900"}`}
+              >
+                <span className="min-w-0 truncate">
+                  <span className={i === current ? "text-neutral-300" : "text-neutral-500"}>{command.section}: </span>
+                  {command.label}
+                </span>
+                {command.shortcut && (
+                  <kbd className={`shrink-0 rounded border px-1.5 font-mono text-xs ${i === current ? "border-neutral-600 text-neutral-200" : "text-neutral-600"}`}>
+                    {command.shortcut}
+                  </kbd>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,110 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { PlusCircle, Trash2 } from "lucide-react";
+import { COUNTER_COLORS, createCounter, DEFAULT_COUNTERS, type CounterDef } from "@/lib/counters";
+
+/** Blank input means "no limit"; anything else must be a number. */
+const readLimit = (text: string) => (text.trim() === "" || !Number.isFinite(Number(text)) ? undefined : Number(text));
+
+function NumberField({ label, value, optional, onChange }: { label: string; value?: number; optional?: boolean; onChange: (value?: number) => void; }) {
+  return (
+    <Input
+      type="number"
+      value={value ?? ""}
+      onChange={(e) => {
+        const next = readLimit(e.target.value);
+        if (next !== undefined || optional) onChange(next);
+      }}
+      placeholder={optional ? "none" : undefined}
+      aria-label={label}
+      title={label}
+      className="h-8 w-20 text-sm"
+    />
+  );
+}
+
+export function CounterEditor({ id, columns, counters = DEFAULT_COUNTERS, onChange }: { id: string; columns: string[]; counters?: CounterDef[]; onChange: (next: CounterDef[]) => void; }) {
+  const [name, setName] = useState("");
+
+  const update = (counterId: string, patch: Partial<CounterDef>) =>
+    onChange(counters.map((c) => (c.id === counterId ? { ...c, ...patch } : c)));
+
+  const add = () => {
+    if (!name.trim()) return;
+    onChange([...counters, createCounter(counters, name.trim())]);
+    setName("");
+  };
+
+  return (
+    <div className="grid gap-2">
+      <div className="hidden md:grid md:grid-cols-[1fr_auto_repeat(4,5rem)_1fr_auto] gap-2 text-xs font-medium uppercase tracking-wide text-neutral-500">
+        <span>Counter</span>
+        <span className="w-24">Colour</span>
+        <span>Min</span>
+        <span>Max</span>
+        <span>Step</span>
+        <span>Start</span>
+        <span>Start from column</span>
+        <span className="w-10" />
+      </div>
+      {counters.length === 0 && <div className="text-sm text-neutral-600">No counters; drawn cards of this category have none.</div>}
+      {counters.map((counter) => (
+        <div key={counter.id} className="grid grid-cols-2 md:grid-cols-[1fr_auto_repeat(4,5rem)_1fr_auto] gap-2 items-center">
+          <Input
+            value={counter.name}
+            onChange={(e) => update(counter.id, { name: e.target.value })}
+            aria-label="Counter name"
+            className="h-8 text-sm"
+          />
+          <select
+            value={counter.color}
+            onChange={(e) => update(counter.id, { color: e.target.value })}
+            aria-label={`Colour of ${counter.name}`}
+            className="h-8 w-24 px-2 rounded-lg border bg-white text-sm text-neutral-900"
+            style={{ color: counter.color }}
+          >
+            {COUNTER_COLORS.map(({ name: colorName, value }) => (
+              <option key={value} value={value} style={{ color: value }}>{colorName}</option>
+            ))}
+          </select>
+          <NumberField label={`${counter.name} minimum`} value={counter.min} optional onChange={(min) => update(counter.id, { min })} />
+          <NumberField label={`${counter.name} maximum`} value={counter.max} optional onChange={(max) => update(counter.id, { max })} />
+          <NumberField label={`${counter.name} step`} value={counter.step} onChange={(step) => update(counter.id, { step: step && step > 0 ? step : 1 })} />
+          <NumberField label={`${counter.name} starting value`} value={counter.initial} onChange={(initial) => update(counter.id, { initial: initial ?? 0 })} />
+          <select
+            value={counter.initialColumn ?? ""}
+            onChange={(e) => update(counter.id, { initialColumn: e.target.value || undefined })}
+            aria-label={`Column with the starting ${counter.name}`}
+            className="h-8 px-2 rounded-lg border bg-white text-sm text-neutral-900"
+          >
+            <option value="">Same for every card</option>
+            {counter.initialColumn && !columns.includes(counter.initialColumn) && (
+              <option value={counter.initialColumn}>{counter.initialColumn}</option>
+            )}
+            {columns.map((column) => (
+              <option key={column} value={column}>{column}</option>
+            ))}
+          </select>
+          <Button size="icon" variant="ghost" onClick={() => onChange(counters.filter((c) => c.id !== counter.id))} aria-label={`Remove ${counter.name}`}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <form
+        className="flex items-center gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          add();
+        }}
+      >
+        <Label htmlFor={`${id}-new`} className="sr-only">New counter name</Label>
+        <Input id={`${id}-new`} value={name} onChange={(e) => setName(e.target.value)} placeholder="New counter, e.g. HP" className="h-8 w-48 text-sm" />
+        <Button type="submit" size="sm" variant="secondary" className="gap-2" disabled={!name.trim()}>
+          <PlusCircle className="h-4 w-4" /> Add counter
+        </Button>
+      </form>
+    </div>
+  );
+}
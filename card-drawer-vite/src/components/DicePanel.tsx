@@ -0,0 +1,91 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Dice5, Star, X } from "lucide-react";
+import type { RollResult } from "@/lib/dice";
+import type { RollRecord } from "@/lib/types";
+
+/** Dice as chips: dropped dice struck through, exploded dice marked with "!". */
+export function RollBreakdown({ result }: { result: RollResult }) {
+  return (
+    <span className="inline-flex flex-wrap items-center gap-1 text-sm">
+      {result.terms.map((term, i) => (
+        <span key={i} className="inline-flex items-center gap-1">
+          {(i > 0 || term.sign < 0) && <span className="text-neutral-500">{term.sign < 0 ? "−" : "+"}</span>}
+          {term.kind === "constant" ? (
+            <span className="font-medium">{term.value}</span>
+          ) : (
+            <>
+              <span className="text-xs text-neutral-500">{term.notation}</span>
+              {term.dice.map((die, j) => (
+                <span
+                  key={j}
+                  className={`min-w-6 h-6 px-1 rounded-md border inline-flex items-center justify-center text-xs font-semibold ${die.kept ? "bg-white text-neutral-900" : "bg-neutral-100 text-neutral-400 line-through"} ${die.exploded ? "border-amber-400" : ""}`}
+                  title={die.exploded ? "Exploded" : die.kept ? undefined : "Dropped"}
+                >
+                  {die.value}
+                  {die.exploded && "!"}
+                </span>
+              ))}
+            </>
+          )}
+        </span>
+      ))}
+    </span>
+  );
+}
+
+export function DicePanel({ quickRolls, rolls, currentExpression, onRoll, onQuickRollsChange, onClearHistory }: { quickRolls: string[]; rolls: RollRecord[]; currentExpression: string; onRoll: (expression: string) => void; onQuickRollsChange: (next: string[]) => void; onClearHistory: () => void; }) {
+  const expression = currentExpression.trim();
+  const canSave = expression !== "" && !quickRolls.includes(expression);
+
+  return (
+    <div className="grid gap-3">
+      <div className="flex items-center gap-2 flex-wrap">
+        {quickRolls.map((quick) => (
+          <span key={quick} className="inline-flex items-center rounded-xl border bg-neutral-50">
+            <Button size="sm" variant="ghost" className="gap-1 font-mono" onClick={() => onRoll(quick)}>
+              <Dice5 className="h-4 w-4" /> {quick}
+            </Button>
+            <button
+              type="button"
+              onClick={() => onQuickRollsChange(quickRolls.filter((q) => q !== quick))}
+              aria-label={`Remove quick roll ${quick}`}
+              className="pr-2 text-neutral-400 hover:text-neutral-900"
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </span>
+        ))}
+        <Button size="sm" variant="secondary" className="gap-2" onClick={() => onQuickRollsChange([...quickRolls, expression])} disabled={!canSave}>
+          <Star className="h-4 w-4" /> Save “{expression || "…"}” as quick roll
+        </Button>
+      </div>
+
+      {rolls.length === 0 ? (
+        <div className="text-sm text-neutral-600">No rolls yet. Try 2d6+1, 4d6kh3, d20 adv or 3d6! (exploding).</div>
+      ) : (
+        <>
+          <ol className="grid gap-1 max-h-64 overflow-y-auto pr-1">
+            {rolls.map(({ id, at, result }) => (
+              <li key={id} className="flex items-center justify-between gap-3 rounded-xl border px-3 py-1.5">
+                <div className="flex items-center gap-2 flex-wrap min-w-0">
+                  <span className="font-mono text-sm text-neutral-900">{result.expression}</span>
+                  <RollBreakdown result={result} />
+                </div>
+                <div className="flex items-center gap-3 shrink-0">
+                  <span className="text-xs text-neutral-500">{new Date(at).toLocaleTimeString()}</span>
+                  <span className="text-lg font-semibold w-10 text-right">{result.total}</span>
+                </div>
+              </li>
+            ))}
+          </ol>
+          <div>
+            <Button size="sm" variant="ghost" onClick={onClearHistory}>
+              Clear roll history
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ArrowDownToLine, ArrowUpToLine, Shuffle } from "lucide-react";
+import { rowName, type CardTemplate } from "@/lib/templates";
+import type { ReturnPosition } from "@/lib/draw";
+import type { Row } from "@/lib/types";
+
+export function ReturnButtons({ onReturn, size = "icon" }: { onReturn: (where: ReturnPosition) => void; size?: "icon" | "sm" }) {
+  const iconClass = size === "icon" ? "h-5 w-5" : "h-4 w-4";
+  return (
+    <>
+      <Button size={size} variant="ghost" onClick={() => onReturn("top")} title="Return to top of deck" aria-label="Return to top of deck">
+        <ArrowUpToLine className={iconClass} />
+      </Button>
+      <Button size={size} variant="ghost" onClick={() => onReturn("bottom")} title="Return to bottom of deck" aria-label="Return to bottom of deck">
+        <ArrowDownToLine className={iconClass} />
+      </Button>
+      <Button size={size} variant="ghost" onClick={() => onReturn("shuffle")} title="Shuffle into deck" aria-label="Shuffle into deck">
+        <Shuffle className={iconClass} />
+      </Button>
+    </>
+  );
+}
+
+export function DiscardPile({ label, rows, discards, template, onReturn }: { label: string; rows: Row[]; discards: number[]; template?: CardTemplate; onReturn: (position: number, where: ReturnPosition) => void; }) {
+  if (discards.length === 0) {
+    return <div className="text-sm text-neutral-600">No {label} discarded yet. Dismissed cards land here.</div>;
+  }
+
+  // Newest discard first; `position` stays the index into the stored pile
+  const entries = discards.map((index, position) => ({ index, position })).reverse();
+
+  return (
+    <ul className="grid gap-1 max-h-72 overflow-y-auto pr-1">
+      {entries.map(({ index, position }) => (
+        <li key={position} className="flex items-center justify-between gap-2 rounded-xl border px-3 py-1.5">
+          <div className="flex items-center gap-2 min-w-0">
+            <Badge variant="secondary">Row #{index + 1}</Badge>
+            <span className="text-sm text-neutral-900 truncate">{rows[index] ? rowName(rows[index], template) : "(missing row)"}</span>
+          </div>
+          <div className="flex items-center">
+            <ReturnButtons onReturn={(where) => onReturn(position, where)} />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,63 @@
+import React, { useEffect, useRef, useState } from "react";
+import { FolderUp } from "lucide-react";
+import { filesFromDrop, hasFiles, type DroppedFile } from "@/lib/dropFiles";
+
+/** Listens for files dragged anywhere over the window and shows a full-page drop target while they are. */
+export function DropOverlay({ onDrop, onDropFailed }: { onDrop: (files: DroppedFile[]) => void; onDropFailed: () => void }) {
+  const [dragging, setDragging] = useState(false);
+  // dragenter/dragleave fire for every child element crossed, so count them instead of toggling
+  const depth = useRef(0);
+  const onDropRef = useRef(onDrop);
+  onDropRef.current = onDrop;
+  const onDropFailedRef = useRef(onDropFailed);
+  onDropFailedRef.current = onDropFailed;
+
+  useEffect(() => {
+    const enter = (e: DragEvent) => {
+      if (!hasFiles(e.dataTransfer)) return;
+      e.preventDefault();
+      depth.current += 1;
+      setDragging(true);
+    };
+    const over = (e: DragEvent) => {
+      if (!hasFiles(e.dataTransfer)) return;
+      // Without this the browser opens the file instead of dropping it
+      e.preventDefault();
+      if (e.dataTransfer) e.dataTransfer.dropEffect = "copy";
+    };
+    const leave = (e: DragEvent) => {
+      if (!hasFiles(e.dataTransfer)) return;
+      depth.current = Math.max(0, depth.current - 1);
+      if (depth.current === 0) setDragging(false);
+    };
+    const drop = (e: DragEvent) => {
+      if (!hasFiles(e.dataTransfer) || !e.dataTransfer) return;
+      e.preventDefault();
+      depth.current = 0;
+      setDragging(false);
+      filesFromDrop(e.dataTransfer).then((files) => onDropRef.current(files)).catch(() => onDropFailedRef.current());
+    };
+    window.addEventListener("dragenter", enter);
+    window.addEventListener("dragover", over);
+    window.addEventListener("dragleave", leave);
+    window.addEventListener("drop", drop);
+    return () => {
+      window.removeEventListener("dragenter", enter);
+      window.removeEventListener("dragover", over);
+      window.removeEventListener("dragleave", leave);
+      window.removeEventListener("drop", drop);
+    };
+  }, []);
+
+  if (!dragging) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] pointer-events-none bg-neutral-900/30 p-4 sm:p-6 flex">
+      <div className="flex-1 rounded-3xl border-4 border-dashed border-white/90 bg-white/70 flex flex-col items-center justify-center gap-2 text-neutral-900">
+        <FolderUp className="h-10 w-10" />
+        <div className="text-lg font-semibold">Drop files or folders to load them</div>
+        <div className="text-sm text-neutral-700">CSV, TSV, JSON, XLSX and ODS files are matched to categories by name.</div>
+      </div>
+    </div>
+  );
+}
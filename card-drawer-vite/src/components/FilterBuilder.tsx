@@ -0,0 +1,63 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Filter, PlusCircle, X } from "lucide-react";
+import { FILTER_OPS, type FilterCondition, type FilterOp } from "@/lib/filters";
+
+export function FilterBuilder({ columns, conditions, onChange }: { columns: string[]; conditions: FilterCondition[]; onChange: (next: FilterCondition[]) => void; }) {
+  const update = (i: number, patch: Partial<FilterCondition>) =>
+    onChange(conditions.map((c, j) => (j === i ? { ...c, ...patch } : c)));
+
+  const add = () => onChange([...conditions, { column: columns[0] ?? "", op: "equals", value: "" }]);
+
+  return (
+    <div className="grid gap-2">
+      {conditions.map((condition, i) => (
+        <div key={i} className="flex items-center gap-2 flex-wrap">
+          <span className="text-xs font-medium uppercase tracking-wide text-neutral-500 w-10">{i === 0 ? "Where" : "and"}</span>
+          <select
+            value={condition.column}
+            onChange={(e) => update(i, { column: e.target.value })}
+            aria-label="Filter column"
+            className="h-8 px-2 rounded-lg border bg-white text-sm text-neutral-900"
+          >
+            {!columns.includes(condition.column) && <option value={condition.column}>{condition.column || "—"}</option>}
+            {columns.map((column) => (
+              <option key={column} value={column}>{column}</option>
+            ))}
+          </select>
+          <select
+            value={condition.op}
+            onChange={(e) => update(i, { op: e.target.value as FilterOp })}
+            aria-label="Filter operator"
+            className="h-8 px-2 rounded-lg border bg-white text-sm text-neutral-900"
+          >
+            {FILTER_OPS.map(({ op, label }) => (
+              <option key={op} value={op}>{label}</option>
+            ))}
+          </select>
+          <Input
+            value={condition.value}
+            onChange={(e) => update(i, { value: e.target.value })}
+            aria-label="Filter value"
+            className="h-8 w-32 text-sm text-neutral-900"
+          />
+          <Button size="icon" variant="ghost" onClick={() => onChange(conditions.filter((_, j) => j !== i))} aria-label="Remove condition">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <div className="flex items-center gap-2">
+        <Button size="sm" variant="secondary" className="gap-2" onClick={add} disabled={columns.length === 0}>
+          {conditions.length === 0 ? <Filter className="h-4 w-4" /> : <PlusCircle className="h-4 w-4" />}
+          {conditions.length === 0 ? "Filter draws" : "Add condition"}
+        </Button>
+        {conditions.length > 0 && (
+          <Button size="sm" variant="ghost" onClick={() => onChange([])}>
+            Clear filter
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
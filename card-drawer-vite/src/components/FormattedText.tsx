@@ -0,0 +1,34 @@
+import React from "react";
+
+// **bold**, *italic*, `code`, [label](https://link)
+const INLINE = /(\*\*[^*]+\*\*|\*[^*\s][^*]*\*|`[^`]+`|\[[^\]]+\]\(https?:\/\/[^)\s]+\))/g;
+
+const renderInline = (text: string, keyPrefix: string) =>
+  text.split(INLINE).map((part, i) => {
+    const key = `${keyPrefix}-${i}`;
+    if (part.startsWith("**") && part.endsWith("**") && part.length > 4) return <strong key={key}>{part.slice(2, -2)}</strong>;
+    if (part.startsWith("`") && part.endsWith("`") && part.length > 2) {
+      return <code key={key} className="rounded bg-neutral-100 px-1 font-mono text-[0.9em]">{part.slice(1, -1)}</code>;
+    }
+    const link = part.match(/^\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)$/);
+    if (link) {
+      return <a key={key} href={link[2]} target="_blank" rel="noreferrer" className="underline underline-offset-2">{link[1]}</a>;
+    }
+    if (part.startsWith("*") && part.endsWith("*") && part.length > 2) return <em key={key}>{part.slice(1, -1)}</em>;
+    return <React.Fragment key={key}>{part}</React.Fragment>;
+  });
+
+/** Renders a CSV cell with a small, safe subset of markdown; line breaks are kept. */
+export function FormattedText({ text }: { text: string }) {
+  const lines = text.split(/\r?\n/);
+  return (
+    <>
+      {lines.map((line, i) => (
+        <React.Fragment key={i}>
+          {i > 0 && <br />}
+          {renderInline(line, String(i))}
+        </React.Fragment>
+      ))}
+    </>
+  );
+}
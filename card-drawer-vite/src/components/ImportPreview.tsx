@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, X } from "lucide-react";
+import { applyPlan, defaultPlan, planProblems, type ImportColumn, type ParsedCsv } from "@/lib/csvImport";
+import { displayName } from "@/lib/dataFiles";
+import type { Row } from "@/lib/types";
+
+const PREVIEW_ROWS = 5;
+const MAX_LISTED_ISSUES = 50;
+
+export function ImportPreview({ parsed, sheets = [], categoryLabel, canAppend, onSheetChange, onConfirm, onCancel }: { parsed: ParsedCsv; sheets?: ParsedCsv[]; categoryLabel: string; canAppend: boolean; onSheetChange?: (sheet: ParsedCsv) => void; onConfirm: (rows: Row[], mode: "replace" | "append") => void; onCancel: () => void; }) {
+  const [initial] = useState(() => defaultPlan(parsed));
+  const [plan, setPlan] = useState(initial.plan);
+
+  const issues = [...initial.headerIssues, ...parsed.issues].sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+  const problems = planProblems(plan);
+  const { rows, invalid } = useMemo(() => applyPlan(parsed, plan), [parsed, plan]);
+  const visible = plan.columns.filter((column) => !column.hidden);
+
+  const updateColumn = (source: number, patch: Partial<ImportColumn>) =>
+    setPlan((prev) => ({ ...prev, columns: prev.columns.map((c) => (c.source === source ? { ...c, ...patch } : c)) }));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-start sm:items-center justify-center p-3 overflow-y-auto" role="dialog" aria-modal="true" aria-labelledby="import-preview-title">
+      <div className="w-full max-w-4xl rounded-2xl border bg-white shadow-xl p-4 sm:p-5 grid gap-4 text-neutral-900">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <h2 id="import-preview-title" className="text-lg font-semibold tracking-tight">
+              Import {displayName(parsed)} into {categoryLabel}
+            </h2>
+            <div className="flex flex-wrap gap-2 mt-1">
+              <Badge variant="outline">{parsed.records.length} rows</Badge>
+              <Badge variant="outline">{parsed.headers.length} columns</Badge>
+              {issues.length > 0 && <Badge variant="secondary">{issues.length} issue{issues.length === 1 ? "" : "s"}</Badge>}
+            </div>
+          </div>
+          <Button size="icon" variant="ghost" onClick={onCancel} aria-label="Cancel import">
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+
+        {sheets.length > 1 && onSheetChange && (
+          <div className="flex items-center gap-2 text-sm">
+            <Label htmlFor="import-sheet" className="text-neutral-800">Sheet</Label>
+            <select
+              id="import-sheet"
+              value={parsed.sheetName ?? ""}
+              onChange={(e) => {
+                const sheet = sheets.find((s) => s.sheetName === e.target.value);
+                if (sheet) onSheetChange(sheet);
+              }}
+              className="h-10 px-3 rounded-xl border bg-white text-sm text-neutral-900"
+            >
+              {sheets.map((sheet) => (
+                <option key={sheet.sheetName} value={sheet.sheetName}>{sheet.sheetName} ({sheet.records.length} rows)</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {issues.length > 0 && (
+          <div className="rounded-xl border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-900">
+            <div className="flex items-center gap-2 font-medium mb-1">
+              <AlertTriangle className="h-4 w-4" /> Problems found while reading the file
+            </div>
+            <ul className="grid gap-0.5 max-h-40 overflow-y-auto">
+              {issues.slice(0, MAX_LISTED_ISSUES).map((issue, i) => (
+                <li key={i}>{issue.line ? `Line ${issue.line}: ` : ""}{issue.message}</li>
+              ))}
+              {issues.length > MAX_LISTED_ISSUES && <li>…and {issues.length - MAX_LISTED_ISSUES} more.</li>}
+            </ul>
+          </div>
+        )}
+
+        <div className="grid gap-2">
+          <div className="grid grid-cols-[1fr_auto_auto] gap-2 text-xs font-medium uppercase tracking-wide text-neutral-500">
+            <span>Column</span>
+            <span className="w-16 text-center">Keep</span>
+            <span className="w-16 text-center">Required</span>
+          </div>
+          <div className="grid gap-1 max-h-56 overflow-y-auto pr-1">
+            {plan.columns.map((column) => (
+              <div key={column.source} className="grid grid-cols-[1fr_auto_auto] gap-2 items-center">
+                <Input
+                  value={column.name}
+                  onChange={(e) => updateColumn(column.source, { name: e.target.value })}
+                  aria-label={`Name for column ${column.source + 1}`}
+                  disabled={column.hidden}
+                  className="h-8 text-sm text-neutral-900"
+                />
+                <input
+                  type="checkbox"
+                  checked={!column.hidden}
+                  onChange={(e) => updateColumn(column.source, { hidden: !e.target.checked })}
+                  aria-label={`Keep ${column.name}`}
+                  className="w-16 h-4"
+                />
+                <input
+                  type="checkbox"
+                  checked={column.required}
+                  onChange={(e) => updateColumn(column.source, { required: e.target.checked })}
+                  aria-label={`${column.name} is required`}
+                  className="w-16 h-4"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 flex-wrap text-sm">
+          <Switch id="drop-invalid" checked={plan.dropInvalid} onCheckedChange={(dropInvalid) => setPlan((prev) => ({ ...prev, dropInvalid }))} />
+          <Label htmlFor="drop-invalid" className="text-neutral-800">Drop invalid rows</Label>
+          <span className="text-neutral-600">
+            {invalid.length === 0
+              ? "No invalid rows."
+              : `${invalid.length} invalid: ${invalid.slice(0, 5).map(({ line, reason }) => `line ${line} (${reason})`).join(", ")}${invalid.length > 5 ? ", …" : ""}`}
+          </span>
+        </div>
+
+        {visible.length > 0 && rows.length > 0 && (
+          <div className="overflow-x-auto rounded-xl border">
+            <table className="min-w-full text-sm">
+              <thead className="bg-neutral-50">
+                <tr>
+                  {visible.map((column) => (
+                    <th key={column.source} className="px-2 py-1 text-left font-medium text-neutral-700 whitespace-nowrap">{column.name}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+                  <tr key={i} className="border-t">
+                    {visible.map((column) => (
+                      <td key={column.source} className="px-2 py-1 max-w-[16rem] truncate">{row[column.name.trim()]}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {problems.length > 0 && (
+          <div className="text-sm text-red-700">{problems.join(" ")}</div>
+        )}
+
+        <div className="flex items-center justify-end gap-2">
+          <span className="text-sm text-neutral-600 mr-auto">
+            {canAppend
+              ? `Append ${rows.length} row${rows.length === 1 ? "" : "s"} to the current ${categoryLabel} data, or replace it.`
+              : `${rows.length} row${rows.length === 1 ? "" : "s"} will be loaded into ${categoryLabel}.`}
+          </span>
+          <Button variant="ghost" onClick={onCancel}>Cancel</Button>
+          {canAppend && (
+            <Button variant="secondary" onClick={() => onConfirm(rows, "append")} disabled={problems.length > 0 || rows.length === 0}>
+              Append {rows.length} row{rows.length === 1 ? "" : "s"}
+            </Button>
+          )}
+          <Button onClick={() => onConfirm(rows, "replace")} disabled={problems.length > 0 || rows.length === 0}>
+            {canAppend ? "Replace" : "Import"} {rows.length} row{rows.length === 1 ? "" : "s"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import React, { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Download, Search, Trash2 } from "lucide-react";
+import { filterLog, formatLogTime, LOG_KIND_LABELS, type LogEntry } from "@/lib/eventLog";
+import { getCategoryLabel } from "@/lib/categories";
+import type { Category, CategoryDef } from "@/lib/types";
+
+/** Rendering thousands of rows makes typing in the search box sluggish; exports still include everything. */
+const MAX_SHOWN = 300;
+
+export function LogPanel({ entries, categories, onExport, onClear }: { entries: LogEntry[]; categories: CategoryDef[]; onExport: (entries: LogEntry[], format: "csv" | "markdown") => void; onClear?: () => void; }) {
+  const [query, setQuery] = useState("");
+  const [category, setCategory] = useState<Category | null>(null);
+
+  const labelOf = (key: Category) => getCategoryLabel(categories, key);
+  const shown = useMemo(
+    () => filterLog(entries, { query, category }, labelOf),
+    [entries, query, category, categories]
+  );
+  const narrowed = shown.length !== entries.length;
+
+  return (
+    <div className="grid gap-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative">
+          <Search className="h-4 w-4 text-neutral-500 absolute left-3 top-1/2 -translate-y-1/2" />
+          <Input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search the log" aria-label="Search the log" className="w-56 pl-9" />
+        </div>
+        <select
+          value={category ?? ""}
+          onChange={(e) => setCategory(e.target.value || null)}
+          aria-label="Log category"
+          className="h-10 px-3 rounded-xl border bg-white text-sm text-neutral-900"
+        >
+          <option value="">All events</option>
+          {categories.map(({ key, label }) => (
+            <option key={key} value={key}>{label}</option>
+          ))}
+        </select>
+        <div className="flex items-center gap-2 ml-auto">
+          <Button variant="secondary" size="sm" className="gap-2" disabled={shown.length === 0} onClick={() => onExport(shown, "csv")}>
+            <Download className="h-4 w-4" /> CSV
+          </Button>
+          <Button variant="secondary" size="sm" className="gap-2" disabled={shown.length === 0} onClick={() => onExport(shown, "markdown")}>
+            <Download className="h-4 w-4" /> Markdown
+          </Button>
+          {onClear && (
+            <Button variant="ghost" size="sm" className="gap-2" disabled={entries.length === 0} onClick={onClear}>
+              <Trash2 className="h-4 w-4" /> Clear log
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="text-sm text-neutral-600">Nothing has happened yet. Draws, discards, reshuffles, rolls, counter changes and loads appear here.</div>
+      ) : shown.length === 0 ? (
+        <div className="text-sm text-neutral-600">No events match.</div>
+      ) : (
+        <>
+          {narrowed && <div className="text-sm text-neutral-600">{shown.length} of {entries.length} events match; exports include only these.</div>}
+          <ol className="grid gap-1 max-h-80 overflow-y-auto pr-1">
+            {shown.slice(0, MAX_SHOWN).map((entry) => (
+              <li key={entry.id} className="flex items-baseline gap-2 rounded-lg px-2 py-1 text-sm odd:bg-neutral-50">
+                <span className="text-xs text-neutral-500 font-mono whitespace-nowrap">{formatLogTime(entry.at)}</span>
+                <Badge variant="outline" className="shrink-0">{LOG_KIND_LABELS[entry.kind]}</Badge>
+                {entry.category && <Badge variant="secondary" className="shrink-0">{labelOf(entry.category)}</Badge>}
+                <span className="text-neutral-900 break-words min-w-0">{entry.text}</span>
+              </li>
+            ))}
+          </ol>
+          {shown.length > MAX_SHOWN && (
+            <div className="text-xs text-neutral-500">Showing the newest {MAX_SHOWN}; search or export to see the rest.</div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
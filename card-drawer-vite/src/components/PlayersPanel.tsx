@@ -0,0 +1,93 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { PlusCircle, Trash2 } from "lucide-react";
+import type { RoomPeer } from "@/lib/multiplayer";
+import type { Player } from "@/lib/types";
+
+/** `devices` lists the shared room's devices, or is null outside a room, where the seat is picked on screen. */
+export function PlayersPanel({ players, seat, editable, devices, onSeatChange, onAssignDevice, onAdd, onRename, onRemove }: { players: Player[]; seat: string | null; editable: boolean; devices: RoomPeer[] | null; onSeatChange: (seat: string | null) => void; onAssignDevice: (id: string, peerId?: string) => void; onAdd: (name: string) => void; onRename: (id: string, name: string) => void; onRemove: (id: string) => void; }) {
+  const [name, setName] = useState("");
+
+  const add = () => {
+    if (!name.trim()) return;
+    onAdd(name.trim());
+    setName("");
+  };
+
+  return (
+    <div className="grid gap-3">
+      {devices ? (
+        <div className="text-sm text-neutral-700">
+          {seat ? (
+            <>This device holds <strong>{players.find((p) => p.id === seat)?.name || "Unnamed player"}</strong>’s seat; face-down cards in that hand show their face here.</>
+          ) : (
+            "This device has no seat, so every face-down card stays face down. The host seats devices below."
+          )}
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <Label htmlFor="seat" className="text-neutral-800">Viewing as</Label>
+          <select
+            id="seat"
+            value={seat ?? ""}
+            onChange={(e) => onSeatChange(e.target.value || null)}
+            className="h-10 px-3 rounded-xl border bg-white text-sm text-neutral-900"
+          >
+            <option value="">Everyone (hidden cards face down)</option>
+            {players.map((player) => (
+              <option key={player.id} value={player.id}>{player.name}</option>
+            ))}
+          </select>
+          <span className="text-neutral-600">Hidden cards in a hand are shown only to the player viewing as their owner.</span>
+        </div>
+      )}
+
+      {editable && (
+        <div className="flex flex-wrap items-center gap-2">
+          {players.map((player) => (
+            <div key={player.id} className="flex items-center gap-1 rounded-xl border bg-neutral-50 p-1">
+              <Input
+                value={player.name}
+                onChange={(e) => onRename(player.id, e.target.value)}
+                aria-label="Player name"
+                className="h-8 w-32 text-sm"
+              />
+              {devices && (
+                <select
+                  value={player.peerId ?? ""}
+                  onChange={(e) => onAssignDevice(player.id, e.target.value || undefined)}
+                  aria-label={`Device for ${player.name}`}
+                  title="The device that sees this player's face-down cards"
+                  className="h-8 px-2 rounded-lg border bg-white text-sm text-neutral-900 max-w-[9rem]"
+                >
+                  <option value="">No device</option>
+                  {player.peerId && !devices.some((d) => d.id === player.peerId) && <option value={player.peerId}>Left the room</option>}
+                  {devices.map((device) => (
+                    <option key={device.id} value={device.id}>{device.name}</option>
+                  ))}
+                </select>
+              )}
+              <Button size="icon" variant="ghost" onClick={() => onRemove(player.id)} aria-label={`Remove ${player.name}`} title="Remove player; their cards go to the table">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <form
+            className="flex items-center gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              add();
+            }}
+          >
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="New player" aria-label="New player name" className="h-9 w-36 text-sm" />
+            <Button type="submit" size="sm" variant="secondary" className="gap-2" disabled={!name.trim()}>
+              <PlusCircle className="h-4 w-4" /> Add player
+            </Button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
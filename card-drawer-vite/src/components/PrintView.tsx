@@ -0,0 +1,159 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { createPortal } from "react-dom";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Printer, X } from "lucide-react";
+import { CardFace } from "@/components/CardFace";
+import { getCategoryLabel } from "@/lib/categories";
+import { CARD_SIZES, cardPosition, cutMarks, pageLayout, paginate, PAPER_SIZES, type CardSizeKey, type PaperSizeKey } from "@/lib/printLayout";
+import type { Category, CategoryDef, Row } from "@/lib/types";
+
+export type PrintCard = { key: string; category: Category; index: number; row: Row };
+
+/** "drawn" prints the cards in play; anything else is a category key whose whole deck is printed. */
+type PrintSource = "drawn" | Category;
+
+export function PrintView({ categories, initialCategory, drawnCards, deckCards, onClose }: { categories: CategoryDef[]; initialCategory: Category; drawnCards: PrintCard[]; deckCards: (category: Category, copies: boolean) => PrintCard[]; onClose: () => void; }) {
+  const [source, setSource] = useState<PrintSource>(drawnCards.length > 0 ? "drawn" : initialCategory);
+  const [size, setSize] = useState<CardSizeKey>("poker");
+  const [paperKey, setPaperKey] = useState<PaperSizeKey>("a4");
+  const [marks, setMarks] = useState(true);
+  const [copies, setCopies] = useState(true);
+
+  const card = CARD_SIZES[size];
+  const paper = PAPER_SIZES[paperKey];
+  const layout = pageLayout(paper, card);
+  const weighted = source !== "drawn" && !!categories.find((c) => c.key === source)?.weightColumn;
+  const cards = useMemo(
+    () => (source === "drawn" ? drawnCards : deckCards(source, copies)),
+    [source, drawnCards, deckCards, copies]
+  );
+  const pages = paginate(cards, layout.perPage);
+  const lines = marks ? cutMarks(layout, card) : [];
+
+  // Everything else on the page is hidden from the printer while this is open (see index.css)
+  useEffect(() => {
+    document.body.classList.add("printing");
+    return () => document.body.classList.remove("printing");
+  }, []);
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-50 bg-black/40 flex items-start justify-center p-3 overflow-y-auto print:static print:block print:bg-transparent print:p-0 print:overflow-visible"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="print-view-title"
+    >
+      <style>{`@page { size: ${paper.css}; margin: 0; }`}</style>
+      <div className="w-full max-w-5xl rounded-2xl border bg-white shadow-xl p-4 sm:p-5 grid gap-4 text-neutral-900 print:block print:max-w-none print:border-0 print:shadow-none print:rounded-none print:p-0">
+        <div className="flex items-start justify-between gap-3 print:hidden">
+          <div>
+            <h2 id="print-view-title" className="text-lg font-semibold tracking-tight">Print cards</h2>
+            <div className="flex flex-wrap gap-2 mt-1">
+              <Badge variant="outline">{cards.length} card{cards.length === 1 ? "" : "s"}</Badge>
+              <Badge variant="outline">{pages.length} page{pages.length === 1 ? "" : "s"}</Badge>
+              <Badge variant="outline">{layout.perPage} per page</Badge>
+            </div>
+          </div>
+          <Button size="icon" variant="ghost" onClick={onClose} aria-label="Close print view">
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 text-sm print:hidden">
+          <Label htmlFor="print-source" className="text-neutral-800">Print</Label>
+          <select
+            id="print-source"
+            value={source}
+            onChange={(e) => setSource(e.target.value)}
+            className="h-10 px-3 rounded-xl border bg-white text-sm text-neutral-900"
+          >
+            <option value="drawn">Drawn cards ({drawnCards.length})</option>
+            {categories.map(({ key }) => (
+              <option key={key} value={key}>Every {getCategoryLabel(categories, key)} card</option>
+            ))}
+          </select>
+          <Label htmlFor="print-size" className="text-neutral-800">Card</Label>
+          <select
+            id="print-size"
+            value={size}
+            onChange={(e) => setSize(e.target.value as CardSizeKey)}
+            className="h-10 px-3 rounded-xl border bg-white text-sm text-neutral-900"
+          >
+            {Object.entries(CARD_SIZES).map(([key, { name }]) => (
+              <option key={key} value={key}>{name}</option>
+            ))}
+          </select>
+          <Label htmlFor="print-paper" className="text-neutral-800">Paper</Label>
+          <select
+            id="print-paper"
+            value={paperKey}
+            onChange={(e) => setPaperKey(e.target.value as PaperSizeKey)}
+            className="h-10 px-3 rounded-xl border bg-white text-sm text-neutral-900"
+          >
+            {Object.entries(PAPER_SIZES).map(([key, { name }]) => (
+              <option key={key} value={key}>{name}</option>
+            ))}
+          </select>
+          <div className="flex items-center gap-2">
+            <Switch id="print-marks" checked={marks} onCheckedChange={setMarks} />
+            <Label htmlFor="print-marks" className="text-neutral-800">Cut marks</Label>
+          </div>
+          {weighted && (
+            <div className="flex items-center gap-2">
+              <Switch id="print-copies" checked={copies} onCheckedChange={setCopies} />
+              <Label htmlFor="print-copies" className="text-neutral-800">Copies from weight column</Label>
+            </div>
+          )}
+          <Button className="gap-2 ml-auto" disabled={cards.length === 0} onClick={() => window.print()}>
+            <Printer className="h-4 w-4" /> Print
+          </Button>
+        </div>
+        <div className="text-sm text-neutral-600 print:hidden">Print at 100% scale (turn off “fit to page”) so the cards come out at their real size.</div>
+
+        {cards.length === 0 ? (
+          <div className="text-sm text-neutral-600 print:hidden">Nothing to print. Draw some cards or pick a category with rows.</div>
+        ) : (
+          <div className="overflow-x-auto grid gap-4 justify-center bg-neutral-100 rounded-xl p-4 print:block print:overflow-visible print:bg-transparent print:p-0 print:rounded-none">
+            {pages.map((page, p) => (
+              <div
+                key={p}
+                className={`relative overflow-hidden bg-white shadow print:shadow-none ${p < pages.length - 1 ? "break-after-page" : ""}`}
+                style={{ width: `${paper.width}mm`, height: `${paper.height}mm` }}
+              >
+                {page.map((item, slot) => {
+                  const { left, top } = cardPosition(layout, card, slot);
+                  return (
+                    <div
+                      key={item.key}
+                      className="absolute overflow-hidden border border-neutral-300 bg-white p-3"
+                      style={{ left: `${left}mm`, top: `${top}mm`, width: `${card.width}mm`, height: `${card.height}mm` }}
+                    >
+                      <CardFace
+                        row={item.row}
+                        index={item.index}
+                        categoryLabel={getCategoryLabel(categories, item.category)}
+                        template={categories.find((c) => c.key === item.category)?.template}
+                        eager
+                      />
+                    </div>
+                  );
+                })}
+                {lines.length > 0 && (
+                  <svg className="absolute inset-0 pointer-events-none" width={`${paper.width}mm`} height={`${paper.height}mm`} viewBox={`0 0 ${paper.width} ${paper.height}`}>
+                    {lines.map((line, i) => (
+                      <line key={i} {...line} stroke="black" strokeWidth={0.2} />
+                    ))}
+                  </svg>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+}
@@ -0,0 +1,125 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Layers, Pencil, PlusCircle, Save, Trash2, X } from "lucide-react";
+import { MAX_DRAW_COUNT } from "@/lib/draw";
+import { makeId } from "@/lib/ids";
+import type { CategoryDef, Recipe, RecipePart } from "@/lib/types";
+
+export const describeRecipe = (recipe: Recipe, categories: CategoryDef[]) =>
+  recipe.parts
+    .map(({ category, count }) => `${count} ${categories.find((c) => c.key === category)?.label ?? category}`)
+    .join(" + ");
+
+export function RecipePanel({ categories, recipes, onChange, onDraw }: { categories: CategoryDef[]; recipes: Recipe[]; onChange: (next: Recipe[]) => void; onDraw: (recipe: Recipe) => void; }) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [parts, setParts] = useState<RecipePart[]>([]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName("");
+    setParts([]);
+  };
+
+  const startEdit = (recipe: Recipe) => {
+    setEditingId(recipe.id);
+    setName(recipe.name);
+    setParts(recipe.parts);
+  };
+
+  const addPart = () => setParts((prev) => [...prev, { category: categories[0].key, count: 1 }]);
+
+  const updatePart = (i: number, patch: Partial<RecipePart>) =>
+    setParts((prev) => prev.map((part, j) => (j === i ? { ...part, ...patch } : part)));
+
+  const validParts = parts.filter((part) => part.count > 0);
+  const canSave = name.trim() !== "" && validParts.length > 0;
+
+  const save = () => {
+    if (!canSave) return;
+    const recipe: Recipe = {
+      id: editingId ?? makeId("recipe"),
+      name: name.trim(),
+      parts: validParts,
+    };
+    onChange(editingId ? recipes.map((r) => (r.id === editingId ? recipe : r)) : [...recipes, recipe]);
+    resetForm();
+  };
+
+  return (
+    <div className="grid gap-3">
+      {recipes.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {recipes.map((recipe) => (
+            <div key={recipe.id} className="flex items-center gap-1 rounded-xl border bg-neutral-50 pl-1 pr-1 py-1">
+              <Button size="sm" className="gap-2" onClick={() => onDraw(recipe)} title={describeRecipe(recipe, categories)}>
+                <Layers className="h-4 w-4" /> {recipe.name}
+              </Button>
+              <span className="text-xs text-neutral-600 px-1 hidden sm:inline">{describeRecipe(recipe, categories)}</span>
+              <Button size="icon" variant="ghost" onClick={() => startEdit(recipe)} aria-label={`Edit ${recipe.name}`}>
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button size="icon" variant="ghost" onClick={() => onChange(recipes.filter((r) => r.id !== recipe.id))} aria-label={`Delete ${recipe.name}`}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid gap-2 rounded-xl border border-dashed p-3">
+        <div className="flex items-center gap-2 flex-wrap">
+          <Label htmlFor="recipe-name" className="text-neutral-800">{editingId ? "Edit recipe" : "New recipe"}</Label>
+          <Input
+            id="recipe-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Encounter"
+            className="h-8 w-48 text-sm text-neutral-900 placeholder:text-neutral-500"
+          />
+        </div>
+        {parts.map((part, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <Input
+              type="number"
+              min={1}
+              max={MAX_DRAW_COUNT}
+              value={part.count}
+              onChange={(e) => updatePart(i, { count: Math.min(MAX_DRAW_COUNT, Math.max(0, Math.floor(Number(e.target.value) || 0))) })}
+              aria-label="Number of cards"
+              className="h-8 w-20 text-sm text-neutral-900"
+            />
+            <select
+              value={part.category}
+              onChange={(e) => updatePart(i, { category: e.target.value })}
+              aria-label="Category"
+              className="h-8 px-2 rounded-lg border bg-white text-sm text-neutral-900"
+            >
+              {categories.map(({ key, label }) => (
+                <option key={key} value={key}>{label || key}</option>
+              ))}
+            </select>
+            <Button size="icon" variant="ghost" onClick={() => setParts((prev) => prev.filter((_, j) => j !== i))} aria-label="Remove part">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <div className="flex items-center gap-2 flex-wrap">
+          <Button size="sm" variant="secondary" className="gap-2" onClick={addPart}>
+            <PlusCircle className="h-4 w-4" /> Add category
+          </Button>
+          <Button size="sm" className="gap-2" onClick={save} disabled={!canSave}>
+            <Save className="h-4 w-4" /> {editingId ? "Update recipe" : "Save recipe"}
+          </Button>
+          {(editingId || parts.length > 0 || name) && (
+            <Button size="sm" variant="ghost" onClick={resetForm}>
+              Cancel
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
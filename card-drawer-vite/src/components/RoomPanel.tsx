@@ -0,0 +1,95 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, LogOut, Radio, Users } from "lucide-react";
+import { normalizeRoomCode, type RoomState } from "@/lib/multiplayer";
+
+export function RoomPanel({ room, status, relayUrl, onRelayUrlChange, onHost, onJoin, onLeave }: { room: RoomState | null; status: string | null; relayUrl: string; onRelayUrlChange: (url: string) => void; onHost: () => void; onJoin: (code: string, name: string) => void; onLeave: () => void; }) {
+  const [code, setCode] = useState("");
+  const [name, setName] = useState("");
+
+  if (room) {
+    const others = room.peers.filter((peer) => peer.id !== room.selfId);
+    return (
+      <div className="grid gap-3">
+        <div className="flex flex-wrap items-center gap-3">
+          {room.code ? (
+            <>
+              <span className="text-sm text-neutral-700">{room.role === "host" ? "Hosting room" : "Joined room"}</span>
+              <span className="font-mono text-2xl font-semibold tracking-widest">{room.code}</span>
+            </>
+          ) : (
+            <Badge variant="secondary" className="gap-1">
+              <Loader2 className="h-3.5 w-3.5 animate-spin" /> Connecting…
+            </Badge>
+          )}
+          <Button variant="secondary" className="gap-2 ml-auto" onClick={onLeave}>
+            <LogOut className="h-4 w-4" /> {room.role === "host" ? "Close room" : "Leave room"}
+          </Button>
+        </div>
+        {room.code && (
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <Users className="h-4 w-4 text-neutral-600" />
+            {others.length === 0 ? (
+              <span className="text-neutral-600">
+                {room.role === "host" ? "Nobody has joined yet. Share the code above." : "Only you and the host."}
+              </span>
+            ) : (
+              others.map((peer) => (
+                <Badge key={peer.id} variant="outline">
+                  {peer.id === room.hostId ? "Host" : peer.name}
+                </Badge>
+              ))
+            )}
+          </div>
+        )}
+        <div className="text-sm text-neutral-600">
+          {room.role === "host"
+            ? "Draws, discards, counter changes and dice rolls from every device go through this browser's decks."
+            : "You see the host's table. Draws, discards, counter changes and rolls you make are sent to the host; your own session comes back when you leave."}
+        </div>
+        {status && <div className="text-sm text-neutral-700">{status}</div>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-3">
+      <div className="grid sm:grid-cols-2 gap-4">
+        <div className="grid gap-2 content-start">
+          <div className="text-sm text-neutral-700">Share this table so other devices can follow and play along.</div>
+          <Button className="gap-2 justify-self-start" onClick={onHost}>
+            <Radio className="h-4 w-4" /> Host a room
+          </Button>
+        </div>
+        <form
+          className="grid gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (normalizeRoomCode(code)) onJoin(normalizeRoomCode(code), name.trim());
+          }}
+        >
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="grid gap-1">
+              <Label htmlFor="room-code" className="text-neutral-800">Room code</Label>
+              <Input id="room-code" value={code} onChange={(e) => setCode(e.target.value)} placeholder="ABCD" autoComplete="off" spellCheck={false} className="w-28 font-mono uppercase" />
+            </div>
+            <div className="grid gap-1">
+              <Label htmlFor="room-name" className="text-neutral-800">Your name</Label>
+              <Input id="room-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Player" className="w-36" />
+            </div>
+            <Button type="submit" variant="secondary" disabled={!normalizeRoomCode(code)}>Join</Button>
+          </div>
+        </form>
+      </div>
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Label htmlFor="relay-url" className="text-neutral-700">Relay</Label>
+        <Input id="relay-url" value={relayUrl} onChange={(e) => onRelayUrlChange(e.target.value)} spellCheck={false} className="h-8 w-72 font-mono text-sm" />
+        <span className="text-neutral-600">Start one with <code className="font-mono">npm run relay</code>.</span>
+      </div>
+      {status && <div className="text-sm text-neutral-700">{status}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import type { Row, SourceFile } from "@/lib/types";
+
+export function SourcePanel({ label, rows, sources, dedupeColumn, hidden, onToggle, onDedupeChange }: { label: string; rows: Row[]; sources: SourceFile[]; dedupeColumn?: string; hidden: number; onToggle: (sourceId: string, enabled: boolean) => void; onDedupeChange: (column: string) => void; }) {
+  const columns = rows.length > 0 ? Object.keys(rows[0]) : [];
+  const disabledRows = sources.filter((s) => !s.enabled).reduce((sum, s) => sum + s.count, 0);
+  const duplicates = hidden - disabledRows;
+
+  if (sources.length === 0) {
+    return <div className="text-sm text-neutral-600">No {label} files loaded yet. Append more CSVs from the import preview or bulk upload.</div>;
+  }
+
+  return (
+    <div className="grid gap-3">
+      <ul className="grid gap-1">
+        {sources.map((source) => (
+          <li key={source.id} className="flex items-center justify-between gap-2 rounded-xl border px-3 py-1.5">
+            <div className="flex items-center gap-2 min-w-0">
+              <Switch
+                id={`source-${source.id}`}
+                checked={source.enabled}
+                onCheckedChange={(enabled) => onToggle(source.id, enabled)}
+              />
+              <Label htmlFor={`source-${source.id}`} className={`text-sm truncate ${source.enabled ? "text-neutral-900" : "text-neutral-500 line-through"}`}>
+                {source.fileName}
+              </Label>
+            </div>
+            <Badge variant="outline">
+              Rows {source.start + 1}–{source.start + source.count}
+            </Badge>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Label htmlFor="dedupe-column" className="text-neutral-800">Draw each value of</Label>
+        <select
+          id="dedupe-column"
+          value={dedupeColumn ?? ""}
+          onChange={(e) => onDedupeChange(e.target.value)}
+          className="h-10 px-3 rounded-xl border bg-white text-sm text-neutral-900"
+        >
+          <option value="">(no dedupe)</option>
+          {columns.map((column) => (
+            <option key={column} value={column}>{column}</option>
+          ))}
+        </select>
+        <span className="text-neutral-600">
+          {dedupeColumn
+            ? `only once. ${duplicates} duplicate row${duplicates === 1 ? "" : "s"} hidden.`
+            : "once, or keep every row."}
+        </span>
+      </div>
+    </div>
+  );
+}
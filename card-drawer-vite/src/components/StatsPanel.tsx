@@ -0,0 +1,175 @@
+import React, { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RotateCcw } from "lucide-react";
+import type { DrawRules } from "@/lib/draw";
+import { buildDeck } from "@/lib/weights";
+import { chanceWithin, dieBars, drawCounts, groupByColumn, nextDrawWeights, type Bar, type Tally } from "@/lib/stats";
+import type { Category, Row } from "@/lib/types";
+
+/** Long tails (one value per row, like names) are cut off; the shares still add up over every value. */
+const MAX_VALUES = 25;
+
+const percent = (p: number) => `${(p * 100).toFixed(p > 0 && p < 0.1 ? 1 : 0)}%`;
+
+/** A column whose values repeat says more about the deck than one that is unique per row, like a name. */
+const defaultColumn = (rows: Row[], columns: string[]) =>
+  columns.find((column) => new Set(rows.map((row) => row[column]?.trim())).size < rows.length) ?? columns[0] ?? "";
+
+function Bars({ bars }: { bars: Bar[] }) {
+  const max = Math.max(1, ...bars.map((bar) => bar.count));
+  return (
+    <div className="grid gap-1">
+      {bars.map((bar) => (
+        <div key={bar.label} className="grid grid-cols-[minmax(3rem,8rem)_1fr_auto] items-center gap-2 text-sm">
+          <span className="truncate text-neutral-800" title={bar.label}>{bar.label}</span>
+          <div className="h-3 rounded-full bg-neutral-100 overflow-hidden">
+            <div className="h-full rounded-full bg-neutral-700" style={{ width: `${(bar.count / max) * 100}%` }} />
+          </div>
+          <span className="text-xs text-neutral-600 tabular-nums whitespace-nowrap">
+            {bar.count}
+            {bar.expected !== undefined && <span className="text-neutral-400"> · exp. {bar.expected.toFixed(1)}</span>}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function StatsPanel({ category, label, rows, deck, rules, tally, onResetTally }: { category: Category; label: string; rows: Row[]; deck: number[]; rules: DrawRules; tally: Tally; onResetTally?: () => void; }) {
+  const columns = useMemo(() => Object.keys(rows[0] ?? {}), [rows]);
+  const [column, setColumn] = useState(() => defaultColumn(rows, columns));
+  const [draws, setDraws] = useState(3);
+  const shownColumn = columns.includes(column) ? column : defaultColumn(rows, columns);
+
+  const next = useMemo(() => groupByColumn(rows, nextDrawWeights(rows, deck, rules), shownColumn), [rows, deck, rules, shownColumn]);
+  const total = next.reduce((sum, share) => sum + share.count, 0);
+
+  // What a fair draw looks like: the full deck (or every row's weight), before any filter
+  const expected = useMemo(() => {
+    const full = nextDrawWeights(rows, buildDeck(rows, rules.weightColumn), { ...rules, conditions: [] });
+    return new Map(groupByColumn(rows, full, shownColumn).map((share) => [share.value, share.share]));
+  }, [rows, rules, shownColumn]);
+
+  const drawn = useMemo(() => groupByColumn(rows, drawCounts(tally, category), shownColumn), [rows, tally, category, shownColumn]);
+  const drawnTotal = drawn.reduce((sum, share) => sum + share.count, 0);
+
+  const dice = Object.entries(tally.dice)
+    .map(([sides, counts]) => ({ sides: Number(sides), counts, rolled: counts.reduce((sum, n) => sum + n, 0) }))
+    .filter(({ rolled }) => rolled > 0)
+    .sort((a, b) => a.sides - b.sides);
+
+  if (columns.length === 0) return <div className="text-sm text-neutral-600">Load {label} to see its deck statistics.</div>;
+
+  return (
+    <div className="grid gap-5">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <Label htmlFor="stats-column" className="text-neutral-800">Group by</Label>
+        <select
+          id="stats-column"
+          value={shownColumn}
+          onChange={(e) => setColumn(e.target.value)}
+          className="h-10 px-3 rounded-xl border bg-white text-sm text-neutral-900"
+        >
+          {columns.map((c) => (
+            <option key={c} value={c}>{c}</option>
+          ))}
+        </select>
+        <Label htmlFor="stats-draws" className="text-neutral-800">Any of the next</Label>
+        <Input
+          id="stats-draws"
+          type="number"
+          min={1}
+          value={draws}
+          onChange={(e) => setDraws(Math.max(1, Math.floor(Number(e.target.value)) || 1))}
+          className="h-10 w-20"
+        />
+        <span className="text-neutral-600">draws</span>
+      </div>
+
+      <div className="grid gap-2">
+        <div className="text-sm text-neutral-600">
+          {rules.allowRepeats
+            ? `Repeats are on: every draw picks from all ${next.length} value${next.length === 1 ? "" : "s"} by weight.`
+            : `${total} card${total === 1 ? "" : "s"} can come up next. Chances assume the deck is in random order; cards put back on the top or bottom are not tracked.`}
+        </div>
+        {total === 0 ? (
+          <div className="text-sm text-neutral-600">Nothing can be drawn with the current filter.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs uppercase tracking-wide text-neutral-500">
+                  <th className="py-1 pr-2 font-medium">{shownColumn}</th>
+                  <th className="py-1 pr-2 font-medium">{rules.allowRepeats ? "Weight" : "Cards"}</th>
+                  <th className="py-1 pr-2 font-medium">Next draw</th>
+                  <th className="py-1 font-medium">Any of next {draws}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {next.slice(0, MAX_VALUES).map((share) => (
+                  <tr key={share.value} className="border-t">
+                    <td className="py-1 pr-2 text-neutral-900 max-w-[14rem] truncate" title={share.value}>{share.value}</td>
+                    <td className="py-1 pr-2 tabular-nums">{Number(share.count.toFixed(2))}</td>
+                    <td className="py-1 pr-2 tabular-nums">
+                      <div className="flex items-center gap-2">
+                        <div className="h-2 w-16 rounded-full bg-neutral-100 overflow-hidden">
+                          <div className="h-full bg-neutral-700" style={{ width: `${share.share * 100}%` }} />
+                        </div>
+                        {percent(share.share)}
+                      </div>
+                    </td>
+                    <td className="py-1 tabular-nums">{percent(chanceWithin(share.count, total, draws, rules.allowRepeats))}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {next.length > MAX_VALUES && (
+              <div className="text-xs text-neutral-500 mt-1">{next.length - MAX_VALUES} more values not shown.</div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="grid gap-2">
+        <div className="flex items-center justify-between gap-2">
+          <h3 className="font-semibold text-neutral-900">Drawn so far</h3>
+          {onResetTally && (
+            <Button variant="ghost" size="sm" className="gap-2" onClick={onResetTally} disabled={drawnTotal === 0 && dice.length === 0}>
+              <RotateCcw className="h-4 w-4" /> Reset counts
+            </Button>
+          )}
+        </div>
+        {drawnTotal === 0 ? (
+          <div className="text-sm text-neutral-600">No {label} drawn since the file was loaded or the counts were reset.</div>
+        ) : (
+          <>
+            <div className="text-sm text-neutral-600">{drawnTotal} draw{drawnTotal === 1 ? "" : "s"}, compared with the share each value has in the full deck.</div>
+            <Bars
+              bars={drawn.slice(0, MAX_VALUES).map(({ value, count }) => ({ label: value, count, expected: drawnTotal * (expected.get(value) ?? 0) }))}
+            />
+          </>
+        )}
+      </div>
+
+      <div className="grid gap-3">
+        <h3 className="font-semibold text-neutral-900">Dice results</h3>
+        {dice.length === 0 ? (
+          <div className="text-sm text-neutral-600">No dice rolled yet.</div>
+        ) : (
+          <div className="grid md:grid-cols-2 gap-4">
+            {dice.map(({ sides, counts, rolled }) => (
+              <div key={sides} className="grid gap-1">
+                <div className="text-sm text-neutral-700">
+                  <span className="font-medium text-neutral-900">d{sides}</span> · {rolled} {rolled === 1 ? "die" : "dice"}
+                </div>
+                <Bars bars={dieBars(counts)} />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { ArrowDown, ArrowUp, Eye, EyeOff } from "lucide-react";
+import { EMPTY_TEMPLATE, orderedFields, type CardTemplate } from "@/lib/templates";
+
+function ColumnSelect({ id, label, value, columns, onChange }: { id: string; label: string; value?: string; columns: string[]; onChange: (column?: string) => void; }) {
+  return (
+    <div className="flex items-center gap-2">
+      <Label htmlFor={id} className="text-neutral-700 w-16">{label}</Label>
+      <select
+        id={id}
+        value={value ?? ""}
+        onChange={(e) => onChange(e.target.value || undefined)}
+        className="h-8 px-2 rounded-lg border bg-white text-sm text-neutral-900"
+      >
+        <option value="">None</option>
+        {columns.map((column) => (
+          <option key={column} value={column}>{column}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+export function TemplateEditor({ id, columns, template = EMPTY_TEMPLATE, onChange }: { id: string; columns: string[]; template?: CardTemplate; onChange: (next: CardTemplate) => void; }) {
+  const fields = orderedFields(columns, template);
+
+  if (columns.length === 0) {
+    return <div className="text-sm text-neutral-600">Load a CSV for this category to set up its card layout.</div>;
+  }
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= fields.length) return;
+    const next = [...fields];
+    const [field] = next.splice(from, 1);
+    next.splice(to, 0, field);
+    onChange({ ...template, fields: next });
+  };
+
+  const toggle = (i: number) =>
+    onChange({ ...template, fields: fields.map((field, j) => (j === i ? { ...field, hidden: !field.hidden } : field)) });
+
+  return (
+    <div className="grid gap-3">
+      <div className="flex flex-wrap gap-3">
+        <ColumnSelect id={`${id}-title`} label="Title" value={template.titleColumn} columns={columns} onChange={(titleColumn) => onChange({ ...template, titleColumn })} />
+        <ColumnSelect id={`${id}-subtitle`} label="Subtitle" value={template.subtitleColumn} columns={columns} onChange={(subtitleColumn) => onChange({ ...template, subtitleColumn })} />
+      </div>
+      <div className="grid gap-1">
+        <div className="text-xs font-medium uppercase tracking-wide text-neutral-500">Body fields</div>
+        {fields.map((field, i) => {
+          const usedAsHeading = field.column === template.titleColumn || field.column === template.subtitleColumn;
+          return (
+            <div key={field.column} className="flex items-center gap-1">
+              <Button size="icon" variant="ghost" onClick={() => move(i, i - 1)} disabled={i === 0} aria-label={`Move ${field.column} up`}>
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button size="icon" variant="ghost" onClick={() => move(i, i + 1)} disabled={i === fields.length - 1} aria-label={`Move ${field.column} down`}>
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => toggle(i)}
+                aria-pressed={!field.hidden}
+                aria-label={field.hidden ? `Show ${field.column}` : `Hide ${field.column}`}
+              >
+                {field.hidden ? <EyeOff className="h-4 w-4 text-neutral-400" /> : <Eye className="h-4 w-4" />}
+              </Button>
+              <span className={`text-sm ${field.hidden || usedAsHeading ? "text-neutral-400 line-through" : "text-neutral-900"}`}>
+                {field.column}
+              </span>
+              {usedAsHeading && <span className="text-xs text-neutral-500">(in heading)</span>}
+            </div>
+          );
+        })}
+      </div>
+      <div className="text-xs text-neutral-600">
+        Cells may use **bold**, *italic*, `code` and [links](https://example.com). Image URLs and data URLs show as pictures.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+/** Elements carrying this attribute (card buttons and the like) are left out of exported images. */
+const EXPORT_SKIP_ATTRIBUTE = "data-export-skip";
+
+/** White border around the exported card, in CSS pixels. */
+const PADDING = 16;
+
+export class CardImageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CardImageError";
+  }
+}
+
+/** Copies every computed style onto the clone, since the SVG image can't see the page's stylesheets. */
+const inlineStyles = (source: Element, target: Element) => {
+  const computed = window.getComputedStyle(source);
+  const style = (target as HTMLElement | SVGElement).style;
+  for (let i = 0; i < computed.length; i++) {
+    const property = computed[i];
+    style.setProperty(property, computed.getPropertyValue(property), computed.getPropertyPriority(property));
+  }
+  Array.from(source.children).forEach((child, i) => {
+    if (target.children[i]) inlineStyles(child, target.children[i]);
+  });
+};
+
+const readAsDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/** Embeds pictures so the canvas stays exportable; ones the browser may not read (no CORS) are dropped. */
+const inlineImages = async (root: HTMLElement) => {
+  let dropped = 0;
+  await Promise.all(
+    Array.from(root.querySelectorAll("img")).map(async (img) => {
+      const src = img.getAttribute("src") ?? "";
+      if (src.startsWith("data:")) return;
+      try {
+        const response = await fetch(src, { mode: "cors" });
+        if (!response.ok) throw new Error(String(response.status));
+        img.setAttribute("src", await readAsDataUrl(await response.blob()));
+        img.removeAttribute("loading");
+      } catch {
+        img.remove();
+        dropped += 1;
+      }
+    })
+  );
+  return dropped;
+};
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new CardImageError("The browser could not draw the card."));
+    image.src = src;
+  });
+
+/**
+ * Renders an element as it looks on screen into a PNG, entirely in the browser:
+ * the element is cloned with inlined styles into an SVG `foreignObject` and
+ * painted onto a canvas. `droppedImages` counts pictures that had to be left out.
+ */
+export const renderElementToPng = async (element: HTMLElement, scale = 2): Promise<{ blob: Blob; droppedImages: number }> => {
+  const { width, height } = element.getBoundingClientRect();
+  const clone = element.cloneNode(true) as HTMLElement;
+  inlineStyles(element, clone);
+  clone.querySelectorAll(`[${EXPORT_SKIP_ATTRIBUTE}]`).forEach((node) => node.remove());
+  clone.style.margin = "0";
+  const droppedImages = await inlineImages(clone);
+
+  const frame = document.createElement("div");
+  frame.style.cssText = `padding: ${PADDING}px; background: #fff; border-radius: ${PADDING}px; width: ${width}px; height: ${height}px;`;
+  frame.appendChild(clone);
+  const outerWidth = Math.ceil(width + 2 * PADDING);
+  const outerHeight = Math.ceil(height + 2 * PADDING);
+
+  const markup = new XMLSerializer().serializeToString(frame);
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${outerWidth}" height="${outerHeight}">` +
+    `<foreignObject x="0" y="0" width="100%" height="100%">${markup}</foreignObject></svg>`;
+  const image = await loadImage(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.ceil(outerWidth * scale);
+  canvas.height = Math.ceil(outerHeight * scale);
+  const context = canvas.getContext("2d");
+  if (!context) throw new CardImageError("This browser can't draw images.");
+  context.scale(scale, scale);
+  context.drawImage(image, 0, 0);
+
+  const blob = await new Promise<Blob | null>((resolve) => {
+    try {
+      canvas.toBlob(resolve, "image/png");
+    } catch {
+      // Some browsers (Safari) treat any foreignObject drawing as cross-origin and refuse to export it
+      resolve(null);
+    }
+  });
+  if (!blob) throw new CardImageError("This browser does not allow saving the card as an image.");
+  return { blob, droppedImages };
+};
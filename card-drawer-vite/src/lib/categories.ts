@@ -0,0 +1,60 @@
+import type { Category, CategoryDef } from "@/lib/types";
+
+export const DEFAULT_CATEGORIES: CategoryDef[] = [
+  { key: "characters", label: "Characters", matches: ["characters", "character"] },
+  { key: "items", label: "Items", matches: ["items", "item"] },
+  { key: "locations", label: "Locations", matches: ["locations", "location"] },
+  { key: "quests", label: "Quests", matches: ["quests", "quest"] },
+];
+
+/** Builds a record with one entry per category, e.g. an empty DataBundle. */
+export const emptyByCategory = <T>(categories: CategoryDef[], make: () => T): Record<Category, T> =>
+  Object.fromEntries(categories.map(({ key }) => [key, make()]));
+
+export const getCategoryLabel = (categories: CategoryDef[], category: Category) =>
+  categories.find((option) => option.key === category)?.label ?? category;
+
+export const detectCategoryFromFilename = (categories: CategoryDef[], name: string): Category | null => {
+  const lower = name.toLowerCase();
+  for (const { key, matches } of categories) {
+    if (matches.some((token) => token && lower.includes(token))) {
+      return key;
+    }
+  }
+  return null;
+};
+
+/** Splits a comma-separated token list as typed in the category editor. */
+export const parseMatchTokens = (text: string): string[] =>
+  text
+    .split(",")
+    .map((token) => token.trim().toLowerCase())
+    .filter(Boolean);
+
+const slugify = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "") || "category";
+
+/**
+ * Keys that per-category records would inherit from Object.prototype ("constructor"),
+ * so a lookup for a category that has no entry yet would find a function instead.
+ */
+export const isReservedCategoryKey = (key: string) => key in Object.prototype;
+
+/** Creates a category with a key that doesn't collide with existing or reserved ones. */
+export const createCategory = (categories: CategoryDef[], label: string, matches?: string[]): CategoryDef => {
+  const base = slugify(label);
+  const taken = new Set(categories.map((c) => c.key));
+  let key = base;
+  for (let n = 2; taken.has(key) || isReservedCategoryKey(key); n++) key = `${base}-${n}`;
+  const lower = label.trim().toLowerCase();
+  return { key, label: label.trim() || key, matches: matches ?? (lower ? [lower] : []) };
+};
+
+/** Turns "Traps_v2.csv" into a category label like "Traps v2". */
+export const labelFromFilename = (name: string) => {
+  const stem = name.replace(/\.[^.]+$/, "").replace(/[_-]+/g, " ").trim();
+  return stem ? stem.charAt(0).toUpperCase() + stem.slice(1) : "Untitled";
+};
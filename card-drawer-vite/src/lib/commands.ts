@@ -0,0 +1,19 @@
+/** An action offered in the command palette; `shortcut` is only shown, the key handling lives in App. */
+export type Command = {
+  id: string;
+  label: string;
+  section: string;
+  shortcut?: string;
+  disabled?: boolean;
+  run: () => void;
+};
+
+/** Commands whose label or section contains every word typed, in their original order. */
+export const searchCommands = (commands: Command[], query: string) => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return commands;
+  return commands.filter((command) => {
+    const text = `${command.section} ${command.label}`.toLowerCase();
+    return words.every((word) => text.includes(word));
+  });
+};
@@ -0,0 +1,66 @@
+import type { Row } from "@/lib/types";
+
+/** A named tally kept on every drawn card of a category, e.g. HP, gold or poison. */
+export type CounterDef = {
+  id: string;
+  name: string;
+  /** One of COUNTER_COLORS' values. */
+  color: string;
+  min?: number;
+  max?: number;
+  /** How much one press of + or − changes the value. */
+  step: number;
+  /** Starting value when `initialColumn` is unset or its cell isn't a number. */
+  initial: number;
+  /** Column whose cell gives each card its starting value, e.g. "hp". */
+  initialColumn?: string;
+};
+
+/** Counter id → current value. Counters added to a category later fall back to their initial value. */
+export type CounterValues = Record<string, number>;
+
+export const COUNTER_COLORS: Array<{ name: string; value: string }> = [
+  { name: "Red", value: "#dc2626" },
+  { name: "Amber", value: "#d97706" },
+  { name: "Green", value: "#16a34a" },
+  { name: "Blue", value: "#2563eb" },
+  { name: "Purple", value: "#9333ea" },
+  { name: "Grey", value: "#525252" },
+];
+
+/** Largest range still drawn as a row of dots rather than a number. */
+const MAX_DOTS = 12;
+
+/** What every category had before counters were configurable: one red 0–10 marker track. */
+export const DEFAULT_COUNTERS: CounterDef[] = [
+  { id: "markers", name: "Markers", color: COUNTER_COLORS[0].value, min: 0, max: 10, step: 1, initial: 0 },
+];
+
+export const clampCounter = (def: CounterDef, value: number) =>
+  Math.min(def.max ?? Infinity, Math.max(def.min ?? -Infinity, value));
+
+/** The starting value for one card: its `initialColumn` cell if numeric, else the default. */
+export const initialValue = (def: CounterDef, row: Row) => {
+  const cell = def.initialColumn ? row[def.initialColumn]?.trim() : "";
+  const parsed = cell ? Number(cell) : NaN;
+  return clampCounter(def, Number.isFinite(parsed) ? parsed : def.initial);
+};
+
+export const initialCounters = (defs: CounterDef[], row: Row): CounterValues =>
+  Object.fromEntries(defs.map((def) => [def.id, initialValue(def, row)]));
+
+export const counterValue = (def: CounterDef, values: CounterValues, row: Row) =>
+  values[def.id] ?? initialValue(def, row);
+
+/** Small whole-number ranges starting at zero read best as dots, like the old marker track. */
+export const showsAsDots = (def: CounterDef) =>
+  def.min === 0 && def.max !== undefined && def.max <= MAX_DOTS && Number.isInteger(def.step);
+
+/** A fresh counter with a unique id, for the category editor. */
+export const createCounter = (existing: CounterDef[], name: string): CounterDef => {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "counter";
+  const taken = new Set(existing.map((c) => c.id));
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+  return { id, name, color: COUNTER_COLORS[existing.length % COUNTER_COLORS.length].value, min: 0, step: 1, initial: 0 };
+};
@@ -0,0 +1,134 @@
+import Papa from "papaparse";
+import type { Row } from "@/lib/types";
+
+/** A problem found while reading a file; `line` is 1-based with the header on line 1. */
+export type CsvIssue = { line?: number; message: string };
+
+export type CsvRecord = { line: number; cells: string[] };
+
+export type ParsedCsv = {
+  fileName: string;
+  /** Worksheet the records came from, for workbook imports. */
+  sheetName?: string;
+  /** Header names as written in the file (BOM removed). */
+  headers: string[];
+  records: CsvRecord[];
+  issues: CsvIssue[];
+};
+
+export type ImportColumn = {
+  /** Position of the column in the file. */
+  source: number;
+  name: string;
+  hidden: boolean;
+  /** Rows with this cell blank count as invalid. */
+  required: boolean;
+};
+
+export type ImportPlan = { columns: ImportColumn[]; dropInvalid: boolean };
+
+export type InvalidRow = { line: number; reason: string };
+
+const stripBom = (text: string) => text.replace(/^\uFEFF/, "");
+
+const isBlankRecord = (cells: string[]) => cells.every((cell) => cell.trim() === "");
+
+/**
+ * Splits raw parsed records into header + data, keeping line numbers and Papa's own errors.
+ * `firstLine` is the line (or sheet row) number of `raw[0]`.
+ */
+export const fromRecords = (fileName: string, raw: string[][], parseErrors: CsvIssue[] = [], firstLine = 1): ParsedCsv => {
+  const issues = [...parseErrors];
+  const headerIndex = raw.findIndex((cells) => !isBlankRecord(cells));
+  if (headerIndex === -1) {
+    return { fileName, headers: [], records: [], issues: [...issues, { message: "The file is empty." }] };
+  }
+  const headers = raw[headerIndex].map((cell, i) => (i === 0 ? stripBom(cell) : cell).trim());
+  const records = raw
+    .map((cells, i) => ({ line: i + firstLine, cells }))
+    .slice(headerIndex + 1)
+    .filter(({ cells }) => !isBlankRecord(cells));
+
+  records.forEach(({ line, cells }) => {
+    if (cells.length !== headers.length) {
+      issues.push({ line, message: `Has ${cells.length} field${cells.length === 1 ? "" : "s"}, expected ${headers.length}.` });
+    }
+  });
+  return { fileName, headers, records, issues };
+};
+
+/**
+ * Reads a CSV without trusting its header, so blank/duplicate headers and ragged rows can be reported.
+ * Papa guesses the delimiter unless one is given (TSV passes a tab).
+ */
+export const parseCsvFile = (file: File, delimiter = ""): Promise<ParsedCsv> =>
+  new Promise((resolve, reject) => {
+    Papa.parse(file, {
+      header: false,
+      delimiter,
+      skipEmptyLines: false,
+      complete: (results: { data: string[][]; errors: Array<{ row?: number; message: string }> }) => {
+        const errors = results.errors.map(({ row, message }) => ({
+          line: typeof row === "number" ? row + 1 : undefined,
+          message,
+        }));
+        resolve(fromRecords(file.name, results.data, errors));
+      },
+      error: (error: Error) => reject(error),
+    });
+  });
+
+/** Names blank headers and de-duplicates repeated ones, noting each fix as an issue. */
+export const defaultPlan = (parsed: ParsedCsv): { plan: ImportPlan; headerIssues: CsvIssue[] } => {
+  const headerIssues: CsvIssue[] = [];
+  const used = new Set<string>();
+  const columns = parsed.headers.map((header, source) => {
+    let name = header || `Column ${source + 1}`;
+    if (!header) headerIssues.push({ line: 1, message: `Column ${source + 1} has no header; named “${name}”.` });
+    if (used.has(name)) {
+      let n = 2;
+      while (used.has(`${name} (${n})`)) n++;
+      headerIssues.push({ line: 1, message: `Header “${name}” appears more than once; renamed to “${name} (${n})”.` });
+      name = `${name} (${n})`;
+    }
+    used.add(name);
+    return { source, name, hidden: false, required: false };
+  });
+  return { plan: { columns, dropInvalid: true }, headerIssues };
+};
+
+/** Problems with the plan itself that must be fixed before importing. */
+export const planProblems = (plan: ImportPlan): string[] => {
+  const visible = plan.columns.filter((column) => !column.hidden);
+  const problems: string[] = [];
+  if (visible.length === 0) problems.push("Keep at least one column.");
+  if (visible.some((column) => !column.name.trim())) problems.push("Every kept column needs a name.");
+  const names = visible.map((column) => column.name.trim());
+  const duplicates = names.filter((name, i) => name && names.indexOf(name) !== i);
+  if (duplicates.length) problems.push(`Column names must be unique: ${[...new Set(duplicates)].join(", ")}.`);
+  return problems;
+};
+
+/** Builds rows from the records using the plan; invalid rows are listed and, if asked, left out. */
+export const applyPlan = (parsed: ParsedCsv, plan: ImportPlan) => {
+  const rows: Row[] = [];
+  const invalid: InvalidRow[] = [];
+  const visible = plan.columns.filter((column) => !column.hidden);
+
+  parsed.records.forEach(({ line, cells }) => {
+    const reasons: string[] = [];
+    if (cells.length !== parsed.headers.length) reasons.push("wrong number of fields");
+    const missing = plan.columns.filter((column) => column.required && !(cells[column.source] ?? "").trim());
+    if (missing.length) reasons.push(`missing ${missing.map((column) => column.name).join(", ")}`);
+    if (reasons.length) {
+      invalid.push({ line, reason: reasons.join("; ") });
+      if (plan.dropInvalid) return;
+    }
+    const row: Row = {};
+    visible.forEach((column) => {
+      row[column.name.trim()] = cells[column.source] ?? "";
+    });
+    rows.push(row);
+  });
+  return { rows, invalid };
+};
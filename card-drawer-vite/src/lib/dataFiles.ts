@@ -0,0 +1,153 @@
+import { fromRecords, parseCsvFile, type CsvIssue, type ParsedCsv } from "@/lib/csvImport";
+
+export type DataFormat = "csv" | "tsv" | "json" | "workbook";
+
+/** File-input `accept` list for every format the loader understands. */
+export const DATA_FILE_ACCEPT = [
+  ".csv",
+  ".tsv",
+  ".tab",
+  ".json",
+  ".xlsx",
+  ".xls",
+  ".ods",
+  "text/csv",
+  "text/tab-separated-values",
+  "application/json",
+].join(",");
+
+const EXTENSIONS: Record<string, DataFormat> = {
+  csv: "csv",
+  tsv: "tsv",
+  tab: "tsv",
+  json: "json",
+  xlsx: "workbook",
+  xls: "workbook",
+  ods: "workbook",
+};
+
+export class DataFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DataFileError";
+  }
+}
+
+/** Format implied by the file extension; null for extensions the loader doesn't know. */
+export const formatFromName = (fileName: string): DataFormat | null => {
+  const extension = fileName.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+  return (extension && EXTENSIONS[extension]) || null;
+};
+
+/** Guesses the format of a text file without a known extension from its first non-blank line. */
+const sniffTextFormat = (text: string): DataFormat => {
+  const trimmed = text.replace(/^\uFEFF/, "").trimStart();
+  if (trimmed.startsWith("[")) return "json";
+  const firstLine = trimmed.split(/\r?\n/, 1)[0] ?? "";
+  return firstLine.includes("\t") && !firstLine.includes(",") ? "tsv" : "csv";
+};
+
+/** The name used to match a parsed file to a category: its sheet for workbooks, else the file name. */
+export const matchName = (parsed: ParsedCsv) => parsed.sheetName ?? parsed.fileName;
+
+/** "cards.xlsx › Items" for a workbook sheet, the plain file name otherwise. */
+export const displayName = (parsed: ParsedCsv) =>
+  parsed.sheetName ? `${parsed.fileName} › ${parsed.sheetName}` : parsed.fileName;
+
+/** Spreadsheet-style text for a JSON value; arrays become "a; b" so they work with the has-tag filter. */
+const jsonCell = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "string") return value;
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  if (Array.isArray(value) && value.every((item) => typeof item !== "object" || item === null)) {
+    return value.map(jsonCell).join("; ");
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * Turns a JSON array of objects into records. Columns are every key in order of
+ * first appearance; line numbers are what the item's row would be in a CSV export.
+ */
+export const parseJsonRecords = (fileName: string, text: string): ParsedCsv => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text.replace(/^\uFEFF/, ""));
+  } catch {
+    throw new DataFileError("File is not valid JSON.");
+  }
+  if (!Array.isArray(value)) throw new DataFileError("JSON must be an array of objects, one per card.");
+
+  const headers: string[] = [];
+  const seen = new Set<string>();
+  const issues: CsvIssue[] = [];
+  value.forEach((item, i) => {
+    if (typeof item !== "object" || item === null || Array.isArray(item)) {
+      issues.push({ line: i + 2, message: `Item ${i + 1} is not an object and was skipped.` });
+      return;
+    }
+    Object.keys(item).forEach((key) => {
+      if (!seen.has(key)) {
+        seen.add(key);
+        headers.push(key);
+      }
+    });
+  });
+
+  const raw = value.map((item) =>
+    typeof item === "object" && item !== null && !Array.isArray(item)
+      ? headers.map((key) => jsonCell((item as Record<string, unknown>)[key]))
+      : headers.map(() => "")
+  );
+  return fromRecords(fileName, [headers, ...raw], issues);
+};
+
+/** One ParsedCsv per non-empty worksheet; line numbers are the sheet's own row numbers. */
+const parseWorkbook = async (file: File): Promise<ParsedCsv[]> => {
+  // SheetJS is large, so it's only fetched when a workbook is actually opened
+  const XLSX = await import("xlsx");
+  let workbook: ReturnType<typeof XLSX.read>;
+  try {
+    workbook = XLSX.read(await file.arrayBuffer(), { type: "array" });
+  } catch {
+    throw new DataFileError("File is not a readable XLSX or ODS workbook.");
+  }
+
+  const sheets = workbook.SheetNames.flatMap((sheetName) => {
+    const sheet = workbook.Sheets[sheetName];
+    const ref = sheet?.["!ref"];
+    if (!ref) return [];
+    // raw: false keeps numbers and dates as displayed in the spreadsheet
+    const raw = XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1, raw: false, defval: "", blankrows: true });
+    const firstRow = XLSX.utils.decode_range(ref).s.r + 1;
+    const parsed = fromRecords(file.name, raw, [], firstRow);
+    // Some writers give blank sheets a range too
+    return parsed.headers.length > 0 ? [{ ...parsed, sheetName }] : [];
+  });
+  if (sheets.length === 0) throw new DataFileError("The workbook has no sheets with data.");
+  return sheets;
+};
+
+/**
+ * Reads any supported data file. Workbooks yield one entry per sheet; every other
+ * format yields exactly one. Throws DataFileError with a user-facing message.
+ */
+export const parseDataFile = async (file: File): Promise<ParsedCsv[]> => {
+  let format = formatFromName(file.name);
+  if (!format) {
+    if (file.type === "application/json") format = "json";
+    else if (file.type === "text/tab-separated-values") format = "tsv";
+    else format = sniffTextFormat(await file.slice(0, 4096).text());
+  }
+
+  switch (format) {
+    case "workbook":
+      return parseWorkbook(file);
+    case "json":
+      return [parseJsonRecords(file.name, await file.text())];
+    case "tsv":
+      return [await parseCsvFile(file, "\t")];
+    default:
+      return [await parseCsvFile(file)];
+  }
+};
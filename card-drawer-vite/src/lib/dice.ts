@@ -0,0 +1,138 @@
+import type { Rng } from "@/lib/rng";
+
+const MAX_DICE = 100;
+const MAX_SIDES = 1000;
+const MAX_EXPLOSIONS = 50;
+
+type Keep = { which: "highest" | "lowest"; count: number };
+
+type DiceTerm = { kind: "dice"; sign: 1 | -1; count: number; sides: number; explode: boolean; keep?: Keep; notation: string };
+type ConstantTerm = { kind: "constant"; sign: 1 | -1; value: number };
+type Term = DiceTerm | ConstantTerm;
+
+export type DieResult = { value: number; kept: boolean; exploded: boolean };
+
+export type TermResult =
+  | { kind: "dice"; sign: 1 | -1; notation: string; sides: number; dice: DieResult[]; total: number }
+  | { kind: "constant"; sign: 1 | -1; value: number; total: number };
+
+export type RollResult = { expression: string; terms: TermResult[]; total: number };
+
+export class DiceSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DiceSyntaxError";
+  }
+}
+
+// count? "d" sides ("%" = 100) "!"? then kh/kl/k/dh/dl with a number
+const DICE_TERM = /^(\d*)d(\d+|%)(!?)(?:(kh|kl|k|dh|dl)(\d+))?$/;
+
+const parseTerm = (text: string, sign: 1 | -1): Term => {
+  if (/^\d+$/.test(text)) return { kind: "constant", sign, value: Number(text) };
+  const match = text.match(DICE_TERM);
+  if (!match) throw new DiceSyntaxError(`Can't read “${text}”. Try something like 2d6+1, 4d6kh3 or d20 adv.`);
+
+  const [, countText, sidesText, bang, keepOp, keepText] = match;
+  const count = countText === "" ? 1 : Number(countText);
+  const sides = sidesText === "%" ? 100 : Number(sidesText);
+  if (count < 1 || count > MAX_DICE) throw new DiceSyntaxError(`Roll between 1 and ${MAX_DICE} dice at a time.`);
+  if (sides < 1 || sides > MAX_SIDES) throw new DiceSyntaxError(`Dice need between 1 and ${MAX_SIDES} sides.`);
+  if (bang && sides < 2) throw new DiceSyntaxError("A one-sided die can't explode.");
+
+  let keep: Keep | undefined;
+  if (keepOp) {
+    const n = Number(keepText);
+    // Dropping is keeping the rest from the other end
+    keep =
+      keepOp === "kl" ? { which: "lowest", count: n }
+      : keepOp === "dh" ? { which: "lowest", count: count - n }
+      : keepOp === "dl" ? { which: "highest", count: count - n }
+      : { which: "highest", count: n };
+    if (keep.count < 1 || keep.count > count) throw new DiceSyntaxError(`“${text}” keeps ${keep.count} of ${count} dice.`);
+  }
+  return { kind: "dice", sign, count, sides, explode: bang === "!", keep, notation: text };
+};
+
+/** Parses e.g. "2d6+1", "4d6kh3", "3d6!", "d20 adv", "d20 dis", "1d8+1d6-1". */
+export const parseDice = (expression: string): Term[] => {
+  let text = expression.toLowerCase().replace(/\s+/g, " ").trim();
+  let advantage: "adv" | "dis" | null = null;
+  const suffix = text.match(/\s*(adv|advantage|dis|disadvantage)$/);
+  if (suffix) {
+    advantage = suffix[1].startsWith("adv") ? "adv" : "dis";
+    text = text.slice(0, suffix.index).trim();
+  }
+  text = text.replace(/\s/g, "");
+  if (!text) throw new DiceSyntaxError("Type a dice expression, e.g. 2d6+1.");
+
+  const terms: Term[] = [];
+  const pieces = text.match(/[+-]?[^+-]+/g) ?? [];
+  if (pieces.join("") !== text) throw new DiceSyntaxError(`Can't read “${expression}”.`);
+  pieces.forEach((piece) => {
+    const sign = piece.startsWith("-") ? -1 : 1;
+    terms.push(parseTerm(piece.replace(/^[+-]/, ""), sign));
+  });
+
+  if (advantage) {
+    const first = terms.find((term): term is DiceTerm => term.kind === "dice");
+    if (!first || first.count !== 1 || first.keep) {
+      throw new DiceSyntaxError("adv/dis needs a single die to roll twice, e.g. d20 adv.");
+    }
+    first.count = 2;
+    first.keep = { which: advantage === "adv" ? "highest" : "lowest", count: 1 };
+    first.notation = `${first.notation} ${advantage}`;
+  }
+  return terms;
+};
+
+const rollDie = (rng: Rng, sides: number) => 1 + rng.int(sides);
+
+const rollTerm = (rng: Rng, term: Term): TermResult => {
+  if (term.kind === "constant") return { ...term, total: term.sign * term.value };
+
+  const dice: DieResult[] = [];
+  for (let i = 0; i < term.count; i++) {
+    let value = rollDie(rng, term.sides);
+    dice.push({ value, kept: true, exploded: false });
+    // Exploding: every max roll adds another die
+    for (let n = 0; term.explode && value === term.sides && n < MAX_EXPLOSIONS; n++) {
+      value = rollDie(rng, term.sides);
+      dice.push({ value, kept: true, exploded: true });
+    }
+  }
+
+  if (term.keep) {
+    const { which, count } = term.keep;
+    const order = dice
+      .map((die, i) => ({ value: die.value, i }))
+      .sort((a, b) => (which === "highest" ? b.value - a.value : a.value - b.value) || a.i - b.i);
+    const keptIndices = new Set(order.slice(0, count).map(({ i }) => i));
+    dice.forEach((die, i) => {
+      die.kept = keptIndices.has(i);
+    });
+  }
+
+  const sum = dice.reduce((total, die) => total + (die.kept ? die.value : 0), 0);
+  return { kind: "dice", sign: term.sign, notation: term.notation, sides: term.sides, dice, total: term.sign * sum };
+};
+
+/** Parses and rolls an expression; throws DiceSyntaxError for anything it can't read. */
+export const rollDice = (rng: Rng, expression: string): RollResult => {
+  const terms = parseDice(expression).map((term) => rollTerm(rng, term));
+  return { expression: expression.trim(), terms, total: terms.reduce((total, term) => total + term.total, 0) };
+};
+
+/** Plain-text breakdown, e.g. "4d6kh3 [6, 5, 3, (1)] + 1". Dropped dice are in parentheses, explosions marked "!". */
+export const describeRoll = (result: RollResult) =>
+  result.terms
+    .map((term, i) => {
+      const sign = term.sign < 0 ? (i > 0 ? "- " : "-") : i > 0 ? "+ " : "";
+      if (term.kind === "constant") return `${sign}${term.value}`;
+      const dice = term.dice.map((die) => {
+        const text = `${die.value}${die.exploded ? "!" : ""}`;
+        return die.kept ? text : `(${text})`;
+      });
+      return `${sign}${term.notation} [${dice.join(", ")}]`;
+    })
+    .join(" ");
@@ -0,0 +1,95 @@
+import { matchesFilters, activeConditions, type FilterCondition } from "@/lib/filters";
+import type { Rng } from "@/lib/rng";
+import type { Row } from "@/lib/types";
+import { pickWeighted, readWeights } from "@/lib/weights";
+
+/** Everything about a category that decides which row a draw can produce. */
+export type DrawRules = {
+  allowRepeats: boolean;
+  weightColumn?: string;
+  conditions: FilterCondition[];
+  /** Rows that must not come up, e.g. from switched-off source files. */
+  inactive?: Set<number>;
+};
+
+/** Most cards one draw takes from a category, whether asked for by the draw box, a recipe or a guest. */
+export const MAX_DRAW_COUNT = 20;
+
+/** Fisher–Yates shuffle; index 0 of a deck is its top card. */
+export const shuffleDeck = (rng: Rng, deck: number[]): number[] => {
+  const next = [...deck];
+  for (let i = next.length - 1; i > 0; i--) {
+    const j = rng.int(i + 1);
+    [next[i], next[j]] = [next[j], next[i]];
+  }
+  return next;
+};
+
+export type ReturnPosition = "top" | "bottom" | "shuffle";
+
+/** Puts a row back into a deck at the top, the bottom or a random position. */
+export const returnToDeck = (rng: Rng, deck: number[], index: number, where: ReturnPosition): number[] => {
+  if (where === "top") return [index, ...deck];
+  if (where === "bottom") return [...deck, index];
+  const position = rng.int(deck.length + 1);
+  return [...deck.slice(0, position), index, ...deck.slice(position)];
+};
+
+/** `pile` with one occurrence of each of `indices` taken out; copies of a row are interchangeable. */
+export const removeIndices = (pile: number[], indices: number[]): number[] => {
+  const left = [...indices];
+  return pile.filter((index) => {
+    const at = left.indexOf(index);
+    if (at === -1) return true;
+    left.splice(at, 1);
+    return false;
+  });
+};
+
+/** Positions in `deck` whose row passes the filter. */
+export const matchingPositions = (rows: Row[], deck: number[], conditions: FilterCondition[], inactive?: Set<number>): number[] => {
+  const filtering = activeConditions(conditions).length > 0;
+  return deck.flatMap((index, position) =>
+    inactive?.has(index) || (filtering && !matchesFilters(rows[index], conditions)) ? [] : [position]
+  );
+};
+
+/** Per-row weights for allow-repeats draws, or null when every row is equally likely. */
+export const repeatWeights = (rows: Row[], { weightColumn, conditions, inactive }: DrawRules): number[] | null => {
+  const filtering = activeConditions(conditions).length > 0;
+  const excluding = !!inactive && inactive.size > 0;
+  if (!weightColumn && !filtering && !excluding) return null;
+  const weights = weightColumn ? readWeights(rows, weightColumn, "weight").values : rows.map(() => 1);
+  return weights.map((w, i) =>
+    inactive?.has(i) || (filtering && !matchesFilters(rows[i], conditions)) ? 0 : w
+  );
+};
+
+/**
+ * Draws up to `count` rows. Without repeats each draw takes the topmost
+ * matching card of the (already shuffled) `deck`, and the shrunken deck is
+ * returned; fewer indices than asked means it ran dry.
+ */
+export const drawIndices = (rng: Rng, rows: Row[], deck: number[], rules: DrawRules, count: number) => {
+  const indices: number[] = [];
+  if (rows.length === 0) return { indices, deck };
+
+  if (rules.allowRepeats) {
+    const weights = repeatWeights(rows, rules);
+    for (let n = 0; n < count; n++) {
+      const index = weights ? pickWeighted(rng, weights) : rng.int(rows.length);
+      if (index === null) break;
+      indices.push(index);
+    }
+    return { indices, deck };
+  }
+
+  let nextDeck = deck;
+  for (let n = 0; n < count; n++) {
+    const [position] = matchingPositions(rows, nextDeck, rules.conditions, rules.inactive);
+    if (position === undefined) break;
+    indices.push(nextDeck[position]);
+    nextDeck = [...nextDeck.slice(0, position), ...nextDeck.slice(position + 1)];
+  }
+  return { indices, deck: nextDeck };
+};
@@ -0,0 +1,41 @@
+/** A dropped file with its path inside any dropped folder, e.g. "decks/items.csv". */
+export type DroppedFile = { file: File; path: string };
+
+const readEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> =>
+  new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+
+const entryFile = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject));
+
+const walkEntry = async (entry: FileSystemEntry, out: DroppedFile[]) => {
+  if (entry.isFile) {
+    out.push({ file: await entryFile(entry as FileSystemFileEntry), path: entry.fullPath.replace(/^\//, "") });
+    return;
+  }
+  if (!entry.isDirectory) return;
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  // readEntries hands back at most ~100 entries per call; keep asking until it returns none
+  for (let batch = await readEntries(reader); batch.length > 0; batch = await readEntries(reader)) {
+    for (const child of batch) await walkEntry(child, out);
+  }
+};
+
+/** Whether a drag carries files (as opposed to text or a link), so the drop overlay only shows for those. */
+export const hasFiles = (transfer: DataTransfer | null) => Boolean(transfer && Array.from(transfer.types).includes("Files"));
+
+/**
+ * Every file in a drop, descending into dropped folders. Browsers without the
+ * entries API only report top-level files, so folders are skipped there.
+ */
+export const filesFromDrop = async (transfer: DataTransfer): Promise<DroppedFile[]> => {
+  // Entries must be taken synchronously; the DataTransfer is emptied once the drop handler yields
+  const entries = Array.from(transfer.items)
+    .filter((item) => item.kind === "file")
+    .map((item) => item.webkitGetAsEntry?.() ?? null);
+  if (entries.length === 0 || entries.some((entry) => entry === null)) {
+    return Array.from(transfer.files).map((file) => ({ file, path: file.name }));
+  }
+  const out: DroppedFile[] = [];
+  for (const entry of entries) await walkEntry(entry as FileSystemEntry, out);
+  return out;
+};
@@ -0,0 +1,72 @@
+import Papa from "papaparse";
+import type { Category } from "@/lib/types";
+
+export type LogKind = "draw" | "reveal" | "discard" | "return" | "reshuffle" | "roll" | "counter" | "load" | "undo" | "redo";
+
+/** One line of the session log, newest first in the list; `category` is unset for events that belong to no deck, like rolls. */
+export type LogEntry = { id: string; at: number; kind: LogKind; category?: Category; text: string };
+
+export const LOG_KIND_LABELS: Record<LogKind, string> = {
+  draw: "Draw",
+  reveal: "Reveal",
+  discard: "Discard",
+  return: "Return",
+  reshuffle: "Reshuffle",
+  roll: "Roll",
+  counter: "Counter",
+  load: "Load",
+  undo: "Undo",
+  redo: "Redo",
+};
+
+/** Oldest entries are dropped past this, so a long campaign can't fill up storage. */
+export const MAX_LOG_ENTRIES = 2000;
+
+export type LogFilter = { query: string; category: Category | null };
+
+/** Entries in `category` (when set) whose kind, category or text contains every word of `query`. */
+export const filterLog = (entries: LogEntry[], { query, category }: LogFilter, labelOf: (category: Category) => string) => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return entries.filter((entry) => {
+    if (category && entry.category !== category) return false;
+    if (words.length === 0) return true;
+    const haystack = [LOG_KIND_LABELS[entry.kind], entry.category ? labelOf(entry.category) : "", entry.text].join(" ").toLowerCase();
+    return words.every((word) => haystack.includes(word));
+  });
+};
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/** Local date and time to the second, e.g. "2024-05-01 19:42:07". */
+export const formatLogTime = (at: number) => {
+  const d = new Date(at);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+};
+
+const LOG_COLUMNS = ["Time", "Event", "Category", "Details"];
+
+const logCells = (entry: LogEntry, labelOf: (category: Category) => string) => [
+  formatLogTime(entry.at),
+  LOG_KIND_LABELS[entry.kind],
+  entry.category ? labelOf(entry.category) : "",
+  entry.text,
+];
+
+/** The log is kept newest first; exports read oldest first, the order things happened in. */
+const chronological = (entries: LogEntry[]) => [...entries].reverse();
+
+/** Card names come from user data, so cells that a spreadsheet would run as formulas are escaped. */
+export const logToCsv = (entries: LogEntry[], labelOf: (category: Category) => string) =>
+  Papa.unparse(
+    { fields: LOG_COLUMNS, data: chronological(entries).map((entry) => logCells(entry, labelOf)) },
+    { escapeFormulae: true }
+  );
+
+const markdownCell = (text: string) => text.replace(/\\/g, "\\\\").replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+
+export const logToMarkdown = (entries: LogEntry[], labelOf: (category: Category) => string) =>
+  [
+    `| ${LOG_COLUMNS.join(" | ")} |`,
+    `| ${LOG_COLUMNS.map(() => "---").join(" | ")} |`,
+    ...chronological(entries).map((entry) => `| ${logCells(entry, labelOf).map(markdownCell).join(" | ")} |`),
+  ].join("\n") + "\n";
@@ -0,0 +1,50 @@
+import type { Row } from "@/lib/types";
+
+export type FilterOp = "equals" | "contains" | "lt" | "lte" | "gt" | "gte" | "hasTag";
+
+export type FilterCondition = { column: string; op: FilterOp; value: string };
+
+export const FILTER_OPS: Array<{ op: FilterOp; label: string }> = [
+  { op: "equals", label: "=" },
+  { op: "contains", label: "contains" },
+  { op: "lt", label: "<" },
+  { op: "lte", label: "≤" },
+  { op: "gt", label: ">" },
+  { op: "gte", label: "≥" },
+  { op: "hasTag", label: "has tag" },
+];
+
+const toNumber = (text: string) => (text.trim() === "" ? NaN : Number(text));
+
+const matchesCondition = (row: Row, { column, op, value }: FilterCondition): boolean => {
+  const cell = (row[column] ?? "").trim();
+  const needle = value.trim().toLowerCase();
+  switch (op) {
+    case "equals":
+      return cell.toLowerCase() === needle;
+    case "contains":
+      return cell.toLowerCase().includes(needle);
+    case "hasTag":
+      // Tag cells are semicolon-separated, e.g. "undead; boss"
+      return cell
+        .split(";")
+        .map((tag) => tag.trim().toLowerCase())
+        .includes(needle);
+    default: {
+      const a = toNumber(cell);
+      const b = toNumber(value);
+      if (Number.isNaN(a) || Number.isNaN(b)) return false;
+      if (op === "lt") return a < b;
+      if (op === "lte") return a <= b;
+      if (op === "gt") return a > b;
+      return a >= b;
+    }
+  }
+};
+
+/** Conditions without a column or a value are still being edited and don't narrow anything yet. */
+export const activeConditions = (conditions: FilterCondition[]) => conditions.filter((c) => c.column && c.value.trim() !== "");
+
+/** True when the row satisfies every active condition (AND). */
+export const matchesFilters = (row: Row, conditions: FilterCondition[]) =>
+  activeConditions(conditions).every((condition) => matchesCondition(row, condition));
@@ -0,0 +1,36 @@
+export type HistoryEntry<T> = { label: string; state: T };
+
+/** Undo/redo stacks of labelled snapshots; the newest entry is last in each list. */
+export type History<T> = { past: HistoryEntry<T>[]; future: HistoryEntry<T>[] };
+
+const MAX_HISTORY = 100;
+
+export const emptyHistory = <T>(): History<T> => ({ past: [], future: [] });
+
+/** Records `current` as the state to return to, before an action labelled `label` changes it. */
+export const pushHistory = <T>(history: History<T>, label: string, current: T): History<T> => ({
+  past: [...history.past, { label, state: current }].slice(-MAX_HISTORY),
+  future: [],
+});
+
+/** Steps back one action; returns null when there is nothing to undo. */
+export const undoHistory = <T>(history: History<T>, current: T) => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    state: entry.state,
+    label: entry.label,
+    history: { past: history.past.slice(0, -1), future: [...history.future, { label: entry.label, state: current }] },
+  };
+};
+
+/** Re-applies the last undone action; returns null when there is nothing to redo. */
+export const redoHistory = <T>(history: History<T>, current: T) => {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+  return {
+    state: entry.state,
+    label: entry.label,
+    history: { past: [...history.past, { label: entry.label, state: current }], future: history.future.slice(0, -1) },
+  };
+};
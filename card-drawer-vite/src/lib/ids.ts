@@ -0,0 +1,2 @@
+/** An id for records kept in the session (cards, log entries, source files…), unique enough within one browser. */
+export const makeId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
@@ -0,0 +1,194 @@
+import type { Session } from "@/lib/session";
+import { MAX_DRAW_COUNT, type ReturnPosition } from "@/lib/draw";
+import { isOptionalString, isRecord } from "@/lib/saveFile";
+import type { CardVisibility, DrawGroup, RecipePart } from "@/lib/types";
+
+export type RoomRole = "host" | "guest";
+
+export type RoomPeer = { id: string; name: string };
+
+/** This device's place in a room; `code` is null until the relay has answered. */
+export type RoomState = { role: RoomRole; code: string | null; selfId: string | null; hostId: string | null; peers: RoomPeer[] };
+
+/** What guests see of the host's session. Split in two so card data isn't resent on every draw. */
+export type SharedData = Pick<Session, "categories" | "data" | "sources">;
+
+export type SharedTable = Pick<Session, "decks" | "discards" | "drawn" | "players" | "rolls" | "log" | "tally" | "allowRepeats" | "filters">;
+
+/** A guest's action, applied by the host against its own (authoritative) decks and RNG. */
+export type TableIntent =
+  | { type: "draw"; parts: RecipePart[]; label: string; group?: DrawGroup; owner?: string; visibility?: CardVisibility }
+  | { type: "dismiss"; id: string }
+  | { type: "return"; id: string; where: ReturnPosition }
+  | { type: "counter"; id: string; counter: string; value: number }
+  | { type: "move"; id: string; owner?: string }
+  | { type: "visibility"; id: string; visibility: CardVisibility }
+  | { type: "roll"; expression: string };
+
+export type PeerMessage =
+  | { kind: "data"; data: SharedData }
+  | { kind: "table"; table: SharedTable }
+  | { kind: "intent"; intent: TableIntent };
+
+export type RoomEvent =
+  | { type: "open"; room: string; id: string; hostId: string; peers: RoomPeer[] }
+  | { type: "peer-joined"; peer: RoomPeer }
+  | { type: "peer-left"; id: string }
+  | { type: "message"; from: string; message: PeerMessage }
+  | { type: "closed"; reason: string };
+
+export type RoomRequest = { type: "host" } | { type: "join"; room: string; name: string };
+
+export type RoomConnection = {
+  /** Sends to one peer, or to everyone else in the room when `to` is omitted. */
+  send: (message: PeerMessage, to?: string) => void;
+  close: () => void;
+};
+
+/** The relay from `npm run relay`, on whatever host served the app (so phones on the LAN find it too). */
+export const defaultRelayUrl = () => `ws://${window.location.hostname || "localhost"}:8787`;
+
+export const normalizeRoomCode = (code: string) => code.replace(/\s+/g, "").toUpperCase();
+
+/** Limits on what a guest's draw can ask of the host: categories per draw and label length. */
+const MAX_INTENT_PARTS = 10;
+const MAX_INTENT_LABEL = 80;
+
+/** Longest dice expression a guest may send; each die is already capped by the parser. */
+const MAX_INTENT_EXPRESSION = 100;
+
+const isVisibility = (value: unknown): value is CardVisibility => value === "revealed" || value === "hidden";
+
+/** The shape of a guest's action; whether its cards, players and categories exist is up to the host. */
+export const isTableIntent = (value: unknown): value is TableIntent => {
+  if (!isRecord(value)) return false;
+  switch (value.type) {
+    case "draw":
+      return (
+        Array.isArray(value.parts) &&
+        value.parts.every((part) => isRecord(part) && typeof part.category === "string" && Number.isInteger(part.count)) &&
+        typeof value.label === "string" &&
+        (value.group === undefined ||
+          (isRecord(value.group) && typeof value.group.id === "string" && typeof value.group.label === "string")) &&
+        isOptionalString(value.owner) &&
+        (value.visibility === undefined || isVisibility(value.visibility))
+      );
+    case "dismiss":
+      return typeof value.id === "string";
+    case "return":
+      return typeof value.id === "string" && (value.where === "top" || value.where === "bottom" || value.where === "shuffle");
+    case "counter":
+      return typeof value.id === "string" && typeof value.counter === "string" && typeof value.value === "number" && Number.isFinite(value.value);
+    case "move":
+      return typeof value.id === "string" && isOptionalString(value.owner);
+    case "visibility":
+      return typeof value.id === "string" && isVisibility(value.visibility);
+    case "roll":
+      return typeof value.expression === "string";
+    default:
+      return false;
+  }
+};
+
+/** Trims a guest's action to what the host's own controls allow; null when it should be ignored outright. */
+export const limitIntent = (intent: TableIntent): TableIntent | null => {
+  switch (intent.type) {
+    case "draw":
+      return {
+        ...intent,
+        parts: intent.parts.slice(0, MAX_INTENT_PARTS).map(({ category, count }) => ({ category, count: Math.min(MAX_DRAW_COUNT, Math.max(1, count)) })),
+        label: intent.label.slice(0, MAX_INTENT_LABEL) || "Draw",
+        group: intent.group && { id: intent.group.id.slice(0, MAX_INTENT_LABEL), label: intent.group.label.slice(0, MAX_INTENT_LABEL) },
+      };
+    case "roll":
+      return intent.expression.length > MAX_INTENT_EXPRESSION ? null : intent;
+    default:
+      return intent;
+  }
+};
+
+/** Card data and tables are checked in full by whoever applies them; see readSharedData. */
+const isPeerMessage = (value: unknown): value is PeerMessage =>
+  isRecord(value) &&
+  ((value.kind === "data" && isRecord(value.data)) ||
+    (value.kind === "table" && isRecord(value.table)) ||
+    (value.kind === "intent" && isTableIntent(value.intent)));
+
+/**
+ * Connects to the relay and hosts or joins a room. Every outcome — including a
+ * refused join or a dropped connection — arrives through `onEvent`, ending with
+ * exactly one "closed" event unless `close()` is called first.
+ */
+export const openRoom = (url: string, request: RoomRequest, onEvent: (event: RoomEvent) => void): RoomConnection => {
+  let socket: WebSocket;
+  let done = false;
+  const finish = (reason: string) => {
+    if (done) return;
+    done = true;
+    onEvent({ type: "closed", reason });
+  };
+
+  try {
+    socket = new WebSocket(url);
+  } catch {
+    // Malformed URLs throw synchronously; report them like any other failure, but after the caller has the handle
+    queueMicrotask(() => finish(`“${url}” is not a valid relay address.`));
+    return { send: () => undefined, close: () => undefined };
+  }
+
+  let opened = false;
+  socket.onopen = () => socket.send(JSON.stringify(request));
+  socket.onmessage = (e) => {
+    let message: unknown;
+    try {
+      message = JSON.parse(String(e.data));
+    } catch {
+      return;
+    }
+    if (!isRecord(message)) return;
+    switch (message.type) {
+      case "hosted":
+        opened = true;
+        onEvent({ type: "open", room: String(message.room), id: String(message.id), hostId: String(message.id), peers: [] });
+        break;
+      case "joined":
+        opened = true;
+        onEvent({
+          type: "open",
+          room: String(message.room),
+          id: String(message.id),
+          hostId: String(message.hostId),
+          peers: Array.isArray(message.peers) ? (message.peers as RoomPeer[]) : [],
+        });
+        break;
+      case "peer-joined":
+        if (isRecord(message.peer)) onEvent({ type: "peer-joined", peer: message.peer as RoomPeer });
+        break;
+      case "peer-left":
+        onEvent({ type: "peer-left", id: String(message.id) });
+        break;
+      case "message":
+        if (isPeerMessage(message.data)) onEvent({ type: "message", from: String(message.from), message: message.data });
+        break;
+      case "room-closed":
+        finish("The host closed the room.");
+        socket.close();
+        break;
+      case "error":
+        finish(typeof message.message === "string" ? message.message : "The relay refused the request.");
+        socket.close();
+        break;
+    }
+  };
+  socket.onclose = () => finish(opened ? "Lost connection to the relay." : `Could not reach a relay at ${url}.`);
+
+  return {
+    send: (message, to) => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ type: "send", to, data: message }));
+    },
+    close: () => {
+      done = true;
+      socket.close();
+    },
+  };
+};
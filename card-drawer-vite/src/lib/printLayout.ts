@@ -0,0 +1,81 @@
+/** Sizes are in millimetres throughout, the unit both cards and paper are sold in. */
+export type CardSize = { name: string; width: number; height: number };
+
+/** `css` is the matching CSS `@page` size keyword. */
+export type PaperSize = { name: string; width: number; height: number; css: string };
+
+export type CardSizeKey = "poker" | "tarot";
+
+export type PaperSizeKey = "a4" | "letter";
+
+export const CARD_SIZES: Record<CardSizeKey, CardSize> = {
+  poker: { name: "Poker (63 × 88 mm)", width: 63, height: 88 },
+  tarot: { name: "Tarot (70 × 120 mm)", width: 70, height: 120 },
+};
+
+export const PAPER_SIZES: Record<PaperSizeKey, PaperSize> = {
+  a4: { name: "A4", width: 210, height: 297, css: "A4" },
+  letter: { name: "Letter", width: 215.9, height: 279.4, css: "letter" },
+};
+
+/** Kept clear on every side; most home printers can't reach closer to the edge. */
+const PAGE_MARGIN = 5;
+
+/** Cut marks stop this far short of the card grid so they never show on a trimmed card. */
+const MARK_GAP = 1;
+
+const MARK_LENGTH = 4;
+
+export type PageLayout = {
+  columns: number;
+  rows: number;
+  perPage: number;
+  /** Top-left corner of the card grid, which is centred on the page. */
+  left: number;
+  top: number;
+};
+
+/** Cards sit edge to edge so one cut separates two neighbours. */
+export const pageLayout = (paper: PaperSize, card: CardSize): PageLayout => {
+  const columns = Math.max(1, Math.floor((paper.width - 2 * PAGE_MARGIN) / card.width));
+  const rows = Math.max(1, Math.floor((paper.height - 2 * PAGE_MARGIN) / card.height));
+  return {
+    columns,
+    rows,
+    perPage: columns * rows,
+    left: (paper.width - columns * card.width) / 2,
+    top: (paper.height - rows * card.height) / 2,
+  };
+};
+
+export const cardPosition = (layout: PageLayout, card: CardSize, slot: number) => ({
+  left: layout.left + (slot % layout.columns) * card.width,
+  top: layout.top + Math.floor(slot / layout.columns) * card.height,
+});
+
+export type CutMark = { x1: number; y1: number; x2: number; y2: number };
+
+/** Short lines in the page margin lining up with every card edge, on all four sides of the grid. */
+export const cutMarks = (layout: PageLayout, card: CardSize): CutMark[] => {
+  const right = layout.left + layout.columns * card.width;
+  const bottom = layout.top + layout.rows * card.height;
+  const reach = (space: number) => Math.min(MARK_LENGTH, Math.max(0, space - MARK_GAP));
+  const marks: CutMark[] = [];
+  for (let c = 0; c <= layout.columns; c++) {
+    const x = layout.left + c * card.width;
+    marks.push({ x1: x, y1: layout.top - MARK_GAP - reach(layout.top), x2: x, y2: layout.top - MARK_GAP });
+    marks.push({ x1: x, y1: bottom + MARK_GAP, x2: x, y2: bottom + MARK_GAP + reach(layout.top) });
+  }
+  for (let r = 0; r <= layout.rows; r++) {
+    const y = layout.top + r * card.height;
+    marks.push({ x1: layout.left - MARK_GAP - reach(layout.left), y1: y, x2: layout.left - MARK_GAP, y2: y });
+    marks.push({ x1: right + MARK_GAP, y1: y, x2: right + MARK_GAP + reach(layout.left), y2: y });
+  }
+  return marks;
+};
+
+export const paginate = <T>(items: T[], perPage: number): T[][] => {
+  const pages: T[][] = [];
+  for (let i = 0; i < items.length; i += perPage) pages.push(items.slice(i, i + perPage));
+  return pages;
+};
@@ -0,0 +1,49 @@
+export type RngSnapshot = { seed: string; state: number };
+
+export type Rng = {
+  readonly seed: string;
+  /** Uniform float in [0, 1), like Math.random(). */
+  next: () => number;
+  /** Uniform integer in [0, maxExclusive). */
+  int: (maxExclusive: number) => number;
+  snapshot: () => RngSnapshot;
+};
+
+// xmur3-style string hash, used to turn a human-readable seed into a 32-bit state
+const hashSeed = (seed: string): number => {
+  let h = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+  h = Math.imul(h ^ (h >>> 16), 2246822507);
+  h = Math.imul(h ^ (h >>> 13), 3266489909);
+  return (h ^ (h >>> 16)) >>> 0;
+};
+
+/**
+ * Mulberry32 generator. Same seed (and same starting state) always yields the
+ * same sequence, so a session can be replayed from its seed.
+ */
+export const createRng = (seed: string, state: number = hashSeed(seed)): Rng => {
+  let s = state >>> 0;
+  const next = () => {
+    s = (s + 0x6d2b79f5) >>> 0;
+    let t = s;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    seed,
+    next,
+    int: (maxExclusive) => Math.floor(next() * maxExclusive),
+    snapshot: () => ({ seed, state: s }),
+  };
+};
+
+export const randomSeed = (): string => {
+  const bytes = new Uint32Array(1);
+  crypto.getRandomValues(bytes);
+  return bytes[0].toString(36).padStart(6, "0").slice(0, 6);
+};
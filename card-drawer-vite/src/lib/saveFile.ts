@@ -0,0 +1,353 @@
+import type { Session } from "@/lib/session";
+import { FILTER_OPS, type FilterCondition } from "@/lib/filters";
+import type { CardTemplate } from "@/lib/templates";
+import type { CounterDef } from "@/lib/counters";
+import { LOG_KIND_LABELS, type LogEntry } from "@/lib/eventLog";
+import type { Tally } from "@/lib/stats";
+import { shuffleDeck } from "@/lib/draw";
+import { isReservedCategoryKey } from "@/lib/categories";
+import { createRng } from "@/lib/rng";
+import type { SharedData, SharedTable } from "@/lib/multiplayer";
+import type { Category, CategoryDef, DataBundle, DeckState, Drawn, Player, Recipe, RollRecord, Row, SourceFile, SourceState } from "@/lib/types";
+
+const SAVE_FORMAT = "card-drawer-save";
+export const SAVE_FILE_VERSION = 3;
+
+/** Version 2 kept decks in row order and drew at random from them; version 3 decks are shuffled and drawn from the top. */
+const UNSHUFFLED_DECKS_VERSION = 2;
+
+type SaveFile = Session & {
+  format: typeof SAVE_FORMAT;
+  version: number;
+  exportedAt: string;
+};
+
+export class SaveFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SaveFileError";
+  }
+}
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isRow = (value: unknown): value is Row =>
+  isRecord(value) && Object.values(value).every((cell) => typeof cell === "string");
+
+const isIndexList = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every((n) => Number.isInteger(n) && n >= 0);
+
+export const isOptionalString = (value: unknown) => value === undefined || typeof value === "string";
+
+const isTemplate = (value: unknown): value is CardTemplate =>
+  isRecord(value) &&
+  isOptionalString(value.titleColumn) &&
+  isOptionalString(value.subtitleColumn) &&
+  Array.isArray(value.fields) &&
+  value.fields.every((field) => isRecord(field) && typeof field.column === "string" && typeof field.hidden === "boolean");
+
+const isOptionalNumber = (value: unknown) => value === undefined || (typeof value === "number" && Number.isFinite(value));
+
+const isCounterDef = (value: unknown): value is CounterDef =>
+  isRecord(value) &&
+  typeof value.id === "string" &&
+  typeof value.name === "string" &&
+  typeof value.color === "string" &&
+  isOptionalNumber(value.min) &&
+  isOptionalNumber(value.max) &&
+  typeof value.step === "number" &&
+  typeof value.initial === "number" &&
+  isOptionalString(value.initialColumn);
+
+const isCounterValues = (value: unknown): value is Record<string, number> =>
+  isRecord(value) && Object.values(value).every((n) => typeof n === "number" && Number.isFinite(n));
+
+const isCategoryDef = (value: unknown): value is CategoryDef =>
+  isRecord(value) &&
+  typeof value.key === "string" &&
+  typeof value.label === "string" &&
+  Array.isArray(value.matches) &&
+  value.matches.every((token) => typeof token === "string") &&
+  isOptionalString(value.weightColumn) &&
+  (value.template === undefined || isTemplate(value.template)) &&
+  isOptionalString(value.dedupeColumn) &&
+  (value.counters === undefined || (Array.isArray(value.counters) && value.counters.every(isCounterDef)));
+
+const isDrawn = (value: unknown): value is Drawn =>
+  isRecord(value) &&
+  typeof value.id === "string" &&
+  Number.isInteger(value.index) &&
+  isRow(value.row) &&
+  typeof value.category === "string" &&
+  isCounterValues(value.counters) &&
+  (value.group === undefined ||
+    (isRecord(value.group) && typeof value.group.id === "string" && typeof value.group.label === "string")) &&
+  isOptionalString(value.source) &&
+  isOptionalString(value.owner) &&
+  (value.visibility === undefined || value.visibility === "revealed" || value.visibility === "hidden") &&
+  (value.repeat === undefined || typeof value.repeat === "boolean");
+
+const isPlayer = (value: unknown): value is Player =>
+  isRecord(value) && typeof value.id === "string" && typeof value.name === "string" && isOptionalString(value.peerId);
+
+const isSourceFile = (value: unknown): value is SourceFile =>
+  isRecord(value) &&
+  typeof value.id === "string" &&
+  typeof value.fileName === "string" &&
+  Number.isInteger(value.start) &&
+  (value.start as number) >= 0 &&
+  Number.isInteger(value.count) &&
+  (value.count as number) >= 0 &&
+  typeof value.enabled === "boolean";
+
+const isRecipe = (value: unknown): value is Recipe =>
+  isRecord(value) &&
+  typeof value.id === "string" &&
+  typeof value.name === "string" &&
+  Array.isArray(value.parts) &&
+  value.parts.every(
+    (part) => isRecord(part) && typeof part.category === "string" && Number.isInteger(part.count) && (part.count as number) > 0
+  );
+
+const isFilterCondition = (value: unknown): value is FilterCondition =>
+  isRecord(value) &&
+  typeof value.column === "string" &&
+  FILTER_OPS.some(({ op }) => op === value.op) &&
+  typeof value.value === "string";
+
+const isLogEntry = (value: unknown): value is LogEntry =>
+  isRecord(value) &&
+  typeof value.id === "string" &&
+  typeof value.at === "number" &&
+  typeof value.kind === "string" &&
+  Object.prototype.hasOwnProperty.call(LOG_KIND_LABELS, value.kind) &&
+  (value.category === undefined || typeof value.category === "string") &&
+  typeof value.text === "string";
+
+const isCountList = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every((n) => Number.isInteger(n) && n >= 0);
+
+const isTally = (value: unknown): value is Tally =>
+  isRecord(value) &&
+  isRecord(value.draws) &&
+  Object.values(value.draws).every((counts) => isRecord(counts) && isCountList(Object.values(counts))) &&
+  isRecord(value.dice) &&
+  Object.values(value.dice).every(isCountList);
+
+// Roll results are display-only, so a light shape check is enough
+const isRollRecord = (value: unknown): value is RollRecord =>
+  isRecord(value) &&
+  typeof value.id === "string" &&
+  typeof value.at === "number" &&
+  isRecord(value.result) &&
+  typeof value.result.expression === "string" &&
+  typeof value.result.total === "number" &&
+  Array.isArray(value.result.terms);
+
+const readCategories = (value: unknown): CategoryDef[] => {
+  if (!Array.isArray(value) || value.length === 0 || !value.every(isCategoryDef)) {
+    throw new SaveFileError("Save file has no valid category list.");
+  }
+  if (new Set(value.map((c) => c.key)).size !== value.length) {
+    throw new SaveFileError("Save file lists the same category twice.");
+  }
+  const reserved = value.find((c) => isReservedCategoryKey(c.key));
+  if (reserved) throw new SaveFileError(`Save file uses the reserved category key "${reserved.key}".`);
+  return value;
+};
+
+const readData = (value: unknown, categories: CategoryDef[]): DataBundle => {
+  if (!isRecord(value)) throw new SaveFileError("Save file has no card data.");
+  const data: DataBundle = {};
+  for (const { key: category } of categories) {
+    const rows = value[category] ?? [];
+    if (!Array.isArray(rows) || !rows.every(isRow)) {
+      throw new SaveFileError(`Card data for "${category}" is not a list of rows.`);
+    }
+    data[category] = rows;
+  }
+  return data;
+};
+
+const readDecks = (value: unknown, categories: CategoryDef[], data: DataBundle, what = "Deck"): DeckState => {
+  if (!isRecord(value)) throw new SaveFileError(`Save file has no ${what.toLowerCase()} state.`);
+  const decks: DeckState = {};
+  for (const { key: category } of categories) {
+    const deck = value[category] ?? [];
+    if (!isIndexList(deck) || deck.some((i) => i >= data[category].length)) {
+      throw new SaveFileError(`${what} for "${category}" refers to rows that are not in the file.`);
+    }
+    decks[category] = deck;
+  }
+  return decks;
+};
+
+const readSources = (value: unknown, categories: CategoryDef[], data: DataBundle): SourceState => {
+  if (!isRecord(value)) throw new SaveFileError("Source file list is malformed.");
+  const sources: SourceState = {};
+  for (const { key: category } of categories) {
+    const list = value[category] ?? [];
+    if (!Array.isArray(list) || !list.every(isSourceFile)) {
+      throw new SaveFileError(`Source files for "${category}" are malformed.`);
+    }
+    if (list.some(({ start, count }) => start + count > data[category].length)) {
+      throw new SaveFileError(`Source files for "${category}" refer to rows that are not in the file.`);
+    }
+    sources[category] = list;
+  }
+  return sources;
+};
+
+export const serializeSaveFile = (session: Session): string => {
+  const file: SaveFile = {
+    format: SAVE_FORMAT,
+    version: SAVE_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...session,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/** Checks the card data a guest receives from the host by the same rules as a save file. */
+export const readSharedData = (value: unknown): SharedData => {
+  if (!isRecord(value)) throw new SaveFileError("Shared card data is malformed.");
+  const categories = readCategories(value.categories);
+  const data = readData(value.data, categories);
+  return { categories, data, sources: readSources(value.sources ?? {}, categories, data) };
+};
+
+/** Checks a table update from the host against the card data it sent before. */
+export const readSharedTable = (value: unknown, { categories, data }: Pick<SharedData, "categories" | "data">): SharedTable => {
+  if (!isRecord(value)) throw new SaveFileError("Shared table is malformed.");
+  const keys = new Set(categories.map((c) => c.key));
+  const decks = readDecks(value.decks, categories, data);
+  const discards = readDecks(value.discards, categories, data, "Discard pile");
+  const { drawn, players, rolls, log, tally, filters } = value;
+  if (!Array.isArray(players) || !players.every(isPlayer)) throw new SaveFileError("Players are malformed.");
+  if (!Array.isArray(drawn) || !drawn.every((card) => isDrawn(card) && keys.has(card.category))) {
+    throw new SaveFileError("Drawn cards are malformed.");
+  }
+  if (!Array.isArray(rolls) || !rolls.every(isRollRecord)) throw new SaveFileError("Roll history is malformed.");
+  if (!Array.isArray(log) || !log.every(isLogEntry)) throw new SaveFileError("Session log is malformed.");
+  if (!isTally(tally)) throw new SaveFileError("Draw and dice counts are malformed.");
+  if (typeof value.allowRepeats !== "boolean") throw new SaveFileError("Repeat setting is malformed.");
+  if (!isRecord(filters) || !Object.values(filters).every((list) => Array.isArray(list) && list.every(isFilterCondition))) {
+    throw new SaveFileError("Draw filters are malformed.");
+  }
+  return { decks, discards, drawn, players, rolls, log, tally, allowRepeats: value.allowRepeats, filters: filters as Record<Category, FilterCondition[]> };
+};
+
+/** Everything versions 2 and 3 have in common, checked against the file's own categories and rows. */
+const readSaveBody = (parsed: Record<string, unknown>): Omit<Session, "faceDownDiscards"> => {
+  const categories = readCategories(parsed.categories);
+  const data = readData(parsed.data, categories);
+  const decks = readDecks(parsed.decks, categories, data);
+  const discards = readDecks(parsed.discards, categories, data, "Discard pile");
+  const sources = readSources(parsed.sources, categories, data);
+  const keys = new Set(categories.map((c) => c.key));
+
+  if (!Array.isArray(parsed.drawn) || !parsed.drawn.every(isDrawn)) {
+    throw new SaveFileError("Drawn cards are malformed.");
+  }
+  if (parsed.drawn.some((card) => !keys.has(card.category))) {
+    throw new SaveFileError("Drawn cards refer to a category that is not in the file.");
+  }
+  const { players } = parsed;
+  if (!Array.isArray(players) || !players.every(isPlayer)) {
+    throw new SaveFileError("Players are malformed.");
+  }
+  const playerIds = new Set(players.map((p) => p.id));
+  if (parsed.drawn.some((card) => card.owner !== undefined && !playerIds.has(card.owner))) {
+    throw new SaveFileError("A drawn card is held by a player who is not in the file.");
+  }
+  if (!isRecord(parsed.filters)) throw new SaveFileError("Draw filters are malformed.");
+  const filters: Record<Category, FilterCondition[]> = {};
+  for (const [category, conditions] of Object.entries(parsed.filters)) {
+    if (!keys.has(category)) continue;
+    if (!Array.isArray(conditions) || !conditions.every(isFilterCondition)) {
+      throw new SaveFileError(`Draw filter for "${category}" is malformed.`);
+    }
+    filters[category] = conditions;
+  }
+
+  const { recipes } = parsed;
+  if (!Array.isArray(recipes) || !recipes.every(isRecipe)) {
+    throw new SaveFileError("Draw recipes are malformed.");
+  }
+  if (recipes.some((recipe) => recipe.parts.some((part) => !keys.has(part.category)))) {
+    throw new SaveFileError("A draw recipe refers to a category that is not in the file.");
+  }
+
+  const { rolls, log, tally, quickRolls } = parsed;
+  if (!Array.isArray(rolls) || !rolls.every(isRollRecord)) {
+    throw new SaveFileError("Roll history is malformed.");
+  }
+  // Entries for removed categories are kept as history
+  if (!Array.isArray(log) || !log.every(isLogEntry)) {
+    throw new SaveFileError("Session log is malformed.");
+  }
+  if (!isTally(tally)) throw new SaveFileError("Draw and dice counts are malformed.");
+  if (!Array.isArray(quickRolls) || !quickRolls.every((q) => typeof q === "string")) {
+    throw new SaveFileError("Quick rolls are malformed.");
+  }
+
+  const { rng } = parsed;
+  if (!isRecord(rng) || typeof rng.seed !== "string" || !Number.isInteger(rng.state)) {
+    throw new SaveFileError("RNG state is missing or malformed.");
+  }
+
+  return {
+    categories,
+    data,
+    sources,
+    decks,
+    discards,
+    drawn: parsed.drawn,
+    players,
+    filters,
+    recipes,
+    rolls,
+    log,
+    tally,
+    quickRolls,
+    allowRepeats: parsed.allowRepeats === true,
+    selectedCategory:
+      typeof parsed.selectedCategory === "string" && keys.has(parsed.selectedCategory)
+        ? parsed.selectedCategory
+        : categories[0].key,
+    rng: { seed: rng.seed, state: rng.state as number },
+  };
+};
+
+const readVersion3 = (parsed: Record<string, unknown>): Session => {
+  const session = readSaveBody(parsed);
+  return { ...session, faceDownDiscards: readDecks(parsed.faceDownDiscards, session.categories, session.data, "Face-down discard pile") };
+};
+
+/** Version 2 kept decks in row order and didn't tell face-down discards apart. */
+const readVersion2 = (parsed: Record<string, unknown>): Session => {
+  const session = readSaveBody(parsed);
+  // Row-ordered decks would now deal row 0, 1, 2…; shuffle them with the save's own generator so the import stays replayable
+  const generator = createRng(session.rng.seed, session.rng.state);
+  const decks = Object.fromEntries(Object.entries(session.decks).map(([category, deck]) => [category, shuffleDeck(generator, deck)]));
+  return { ...session, decks, faceDownDiscards: {}, rng: generator.snapshot() };
+};
+
+/** Parses and validates a save file, throwing SaveFileError with a user-facing message. */
+export const parseSaveFile = (text: string): Session => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new SaveFileError("File is not valid JSON.");
+  }
+  if (!isRecord(parsed) || parsed.format !== SAVE_FORMAT) {
+    throw new SaveFileError("File is not a Card Drawer save.");
+  }
+  if (parsed.version === SAVE_FILE_VERSION) return readVersion3(parsed);
+  if (parsed.version === UNSHUFFLED_DECKS_VERSION) return readVersion2(parsed);
+  throw new SaveFileError(
+    `Unsupported save version ${String(parsed.version)} (this app reads versions ${UNSHUFFLED_DECKS_VERSION} and ${SAVE_FILE_VERSION}).`
+  );
+};
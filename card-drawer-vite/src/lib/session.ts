@@ -0,0 +1,63 @@
+import type { Category, CategoryDef, DataBundle, DeckState, Drawn, Player, Recipe, RollRecord, SourceState } from "@/lib/types";
+import type { RngSnapshot } from "@/lib/rng";
+import type { FilterCondition } from "@/lib/filters";
+import type { LogEntry } from "@/lib/eventLog";
+import type { Tally } from "@/lib/stats";
+
+const STORAGE_KEY = "card-drawer:session";
+const SESSION_VERSION = 13;
+
+export type Session = {
+  categories: CategoryDef[];
+  data: DataBundle;
+  sources: SourceState;
+  decks: DeckState;
+  discards: DeckState;
+  /** Rows in `discards` that went there face down, so guests aren't told which they were. */
+  faceDownDiscards: DeckState;
+  drawn: Drawn[];
+  players: Player[];
+  filters: Record<Category, FilterCondition[]>;
+  recipes: Recipe[];
+  rolls: RollRecord[];
+  log: LogEntry[];
+  tally: Tally;
+  quickRolls: string[];
+  allowRepeats: boolean;
+  selectedCategory: Category;
+  rng: RngSnapshot;
+};
+
+type StoredSession = Session & { version: number };
+
+export const loadSession = (): Session | null => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const { version, ...session } = JSON.parse(raw) as StoredSession;
+    // Older or newer layouts are dropped rather than half-restored
+    if (version !== SESSION_VERSION) return null;
+    return session;
+  } catch {
+    return null;
+  }
+};
+
+/** False when the browser refused (quota exceeded, storage disabled in private mode). */
+export const saveSession = (session: Session) => {
+  try {
+    const stored: StoredSession = { version: SESSION_VERSION, ...session };
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const clearSession = () => {
+  try {
+    window.localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing to clear if storage is unavailable
+  }
+};
@@ -0,0 +1,38 @@
+import { makeId } from "@/lib/ids";
+import type { Row, SourceFile } from "@/lib/types";
+
+export const makeSource = (fileName: string, start: number, count: number): SourceFile => ({
+  id: makeId("source"),
+  fileName,
+  start,
+  count,
+  enabled: true,
+});
+
+export const sourceOf = (sources: SourceFile[], index: number) =>
+  sources.find(({ start, count }) => index >= start && index < start + count);
+
+/**
+ * Row indices that can't be drawn right now: rows from switched-off sources, and
+ * later rows whose dedupe key repeats an earlier active row. Rows stay in `data`
+ * either way, so deck indices and drawn cards are unaffected by toggling.
+ */
+export const inactiveRows = (rows: Row[], sources: SourceFile[], dedupeColumn?: string): Set<number> => {
+  const inactive = new Set<number>();
+  sources.forEach(({ start, count, enabled }) => {
+    if (enabled) return;
+    for (let i = start; i < start + count; i++) inactive.add(i);
+  });
+  if (dedupeColumn) {
+    const seen = new Set<string>();
+    rows.forEach((row, i) => {
+      if (inactive.has(i)) return;
+      const key = (row[dedupeColumn] ?? "").trim().toLowerCase();
+      // Blank keys can't collide with anything meaningful, so they're never deduped
+      if (!key) return;
+      if (seen.has(key)) inactive.add(i);
+      else seen.add(key);
+    });
+  }
+  return inactive;
+};
@@ -0,0 +1,128 @@
+import { matchingPositions, repeatWeights, type DrawRules } from "@/lib/draw";
+import type { RollResult } from "@/lib/dice";
+import type { Category, Row } from "@/lib/types";
+
+/**
+ * Running counts behind the stats histograms. Draws are counted per row index
+ * (as strings, for JSON) and dice per die size, one count per face.
+ */
+export type Tally = { draws: Record<Category, Record<string, number>>; dice: Record<string, number[]> };
+
+export const EMPTY_TALLY: Tally = { draws: {}, dice: {} };
+
+export type ValueShare = { value: string; count: number; share: number };
+
+export const BLANK_VALUE = "(blank)";
+
+const cellValue = (row: Row | undefined, column: string) => row?.[column]?.trim() || BLANK_VALUE;
+
+/**
+ * How much each row counts towards the next draw: its copies left in the deck
+ * without repeats, its draw weight with them. Rows that can't come up are left out.
+ */
+export const nextDrawWeights = (rows: Row[], deck: number[], rules: DrawRules): Map<number, number> => {
+  const weights = new Map<number, number>();
+  if (rules.allowRepeats) {
+    const perRow = repeatWeights(rows, rules) ?? rows.map(() => 1);
+    perRow.forEach((weight, index) => {
+      if (weight > 0) weights.set(index, weight);
+    });
+  } else {
+    matchingPositions(rows, deck, rules.conditions, rules.inactive).forEach((position) => {
+      const index = deck[position];
+      weights.set(index, (weights.get(index) ?? 0) + 1);
+    });
+  }
+  return weights;
+};
+
+/** Sums per-row amounts by the rows' value in `column`, largest first. */
+export const groupByColumn = (rows: Row[], amounts: Map<number, number>, column: string): ValueShare[] => {
+  const totals = new Map<string, number>();
+  let sum = 0;
+  amounts.forEach((amount, index) => {
+    const value = cellValue(rows[index], column);
+    totals.set(value, (totals.get(value) ?? 0) + amount);
+    sum += amount;
+  });
+  return [...totals]
+    .map(([value, count]) => ({ value, count, share: sum > 0 ? count / sum : 0 }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+};
+
+/**
+ * Chance that at least one of the next `draws` draws matches, when `matching`
+ * of `total` cards (or weight) match. Without repeats the deck shrinks as it
+ * goes (hypergeometric); with repeats every draw is independent.
+ */
+export const chanceWithin = (matching: number, total: number, draws: number, allowRepeats: boolean) => {
+  if (total <= 0 || matching <= 0 || draws <= 0) return 0;
+  if (allowRepeats) return 1 - Math.pow(1 - matching / total, draws);
+  let miss = 1;
+  for (let i = 0; i < Math.min(draws, total); i++) {
+    const left = total - i;
+    miss *= Math.max(0, left - matching) / left;
+    if (miss === 0) break;
+  }
+  return 1 - miss;
+};
+
+/** Counts drawn cards; `by` = -1 takes them back out again. */
+export const tallyDraws = (tally: Tally, cards: Array<{ category: Category; index: number }>, by = 1): Tally => {
+  const draws = { ...tally.draws };
+  cards.forEach(({ category, index }) => {
+    const counts = { ...(draws[category] ?? {}) };
+    const count = (counts[index] ?? 0) + by;
+    if (count > 0) counts[index] = count;
+    else delete counts[index];
+    draws[category] = counts;
+  });
+  return { ...tally, draws };
+};
+
+/** Counts every die that was rolled, including dropped and exploded ones; only the faces matter for fairness. */
+export const tallyRoll = (tally: Tally, result: RollResult): Tally => {
+  const dice = { ...tally.dice };
+  result.terms.forEach((term) => {
+    if (term.kind !== "dice") return;
+    const counts = [...(dice[term.sides] ?? Array.from({ length: term.sides }, () => 0))];
+    term.dice.forEach(({ value }) => {
+      if (value >= 1 && value <= term.sides) counts[value - 1] += 1;
+    });
+    dice[term.sides] = counts;
+  });
+  return { ...tally, dice };
+};
+
+/** Row indices change meaning when a category's file is replaced, so its draw counts start over. */
+export const forgetDraws = (tally: Tally, categories: Category[]): Tally => {
+  if (!categories.some((category) => tally.draws[category])) return tally;
+  const draws = { ...tally.draws };
+  categories.forEach((category) => delete draws[category]);
+  return { ...tally, draws };
+};
+
+export const drawCounts = (tally: Tally, category: Category) =>
+  new Map(Object.entries(tally.draws[category] ?? {}).map(([index, count]) => [Number(index), count]));
+
+/** One histogram bar; `expected` is what a fair draw or die would have given by now. */
+export type Bar = { label: string; count: number; expected?: number };
+
+/** Faces at most this many get a bar each; larger dice (d100) are grouped into ranges. */
+const MAX_FACE_BARS = 20;
+
+export const dieBars = (counts: number[]): Bar[] => {
+  const perFace = counts.reduce((sum, n) => sum + n, 0) / counts.length;
+  if (counts.length <= MAX_FACE_BARS) return counts.map((count, i) => ({ label: String(i + 1), count, expected: perFace }));
+  const size = Math.ceil(counts.length / 10);
+  const bars: Bar[] = [];
+  for (let start = 0; start < counts.length; start += size) {
+    const end = Math.min(counts.length, start + size);
+    bars.push({
+      label: `${start + 1}–${end}`,
+      count: counts.slice(start, end).reduce((sum, n) => sum + n, 0),
+      expected: perFace * (end - start),
+    });
+  }
+  return bars;
+};
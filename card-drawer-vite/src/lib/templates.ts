@@ -0,0 +1,45 @@
+import type { Row } from "@/lib/types";
+
+export type TemplateField = { column: string; hidden: boolean };
+
+/** How a category's rows are laid out on a card. */
+export type CardTemplate = {
+  titleColumn?: string;
+  subtitleColumn?: string;
+  /** Body field order and visibility. Columns missing here are shown after the listed ones. */
+  fields: TemplateField[];
+};
+
+export const EMPTY_TEMPLATE: CardTemplate = { fields: [] };
+
+/** The template's field list reconciled with the columns actually present. */
+export const orderedFields = (columns: string[], template: CardTemplate = EMPTY_TEMPLATE): TemplateField[] => {
+  const known = template.fields.filter((field) => columns.includes(field.column));
+  const listed = new Set(known.map((field) => field.column));
+  const added = columns.filter((column) => !listed.has(column)).map((column) => ({ column, hidden: false }));
+  return [...known, ...added];
+};
+
+export const layoutRow = (row: Row, template: CardTemplate = EMPTY_TEMPLATE) => {
+  const { titleColumn, subtitleColumn } = template;
+  const fields = orderedFields(Object.keys(row), template)
+    .filter(({ column, hidden }) => !hidden && column !== titleColumn && column !== subtitleColumn)
+    .map(({ column }) => [column, row[column]] as const);
+  return {
+    title: titleColumn ? row[titleColumn]?.trim() || undefined : undefined,
+    subtitle: subtitleColumn ? row[subtitleColumn]?.trim() || undefined : undefined,
+    fields,
+  };
+};
+
+/** One-line name for a row: its template title, else its first non-empty cell. */
+export const rowName = (row: Row, template?: CardTemplate) =>
+  layoutRow(row, template).title ?? Object.values(row).find((value) => value.trim()) ?? "(empty row)";
+
+const IMAGE_URL = /^https?:\/\/\S+\.(png|jpe?g|gif|webp|svg|avif)(\?\S*)?$/i;
+
+/** Cells holding an image URL or an embedded `data:image/...` URL render as pictures. */
+export const isImageValue = (value: string) => {
+  const trimmed = value.trim();
+  return IMAGE_URL.test(trimmed) || /^data:image\/[a-z+.-]+;base64,/i.test(trimmed);
+};
@@ -0,0 +1,66 @@
+import type { CardTemplate } from "@/lib/templates";
+import type { CounterDef, CounterValues } from "@/lib/counters";
+import type { RollResult } from "@/lib/dice";
+
+export type Row = Record<string, string>;
+
+/** Stable id of a category; survives renames. */
+export type Category = string;
+
+export type CategoryDef = {
+  key: Category;
+  label: string;
+  /** Lower-case filename tokens used by bulk upload to auto-assign files. */
+  matches: string[];
+  /** Numeric column read as copies per row (no repeats) or draw weight (allow repeats). */
+  weightColumn?: string;
+  /** Card layout for this category's rows; unset shows every column in CSV order. */
+  template?: CardTemplate;
+  /** Column whose repeated values are drawn only once across merged files. */
+  dedupeColumn?: string;
+  /** Counters kept on this category's drawn cards; unset means the default 0–10 marker track. */
+  counters?: CounterDef[];
+};
+
+export type DataBundle = Record<Category, Row[]>;
+
+/** One loaded file's contiguous slice of a category's rows. Rows are only ever appended, so indices stay stable. */
+export type SourceFile = { id: string; fileName: string; start: number; count: number; enabled: boolean };
+
+export type SourceState = Record<Category, SourceFile[]>;
+
+export type DeckState = Record<Category, number[]>;
+
+/** Cards that came out of one multi-card or recipe draw share a group. */
+export type DrawGroup = { id: string; label: string };
+
+/**
+ * A named seat at the table; cards can be dealt into a player's hand instead of the shared area.
+ * `peerId` is the device the host seated there in a shared room.
+ */
+export type Player = { id: string; name: string; peerId?: string };
+
+/** Hidden cards show their back to everyone except their owner. */
+export type CardVisibility = "revealed" | "hidden";
+
+export type Drawn = {
+  id: string;
+  index: number;
+  row: Row;
+  category: Category;
+  counters: CounterValues;
+  group?: DrawGroup;
+  source?: string;
+  /** Player holding the card; unset means it lies on the table. */
+  owner?: string;
+  /** Unset counts as "revealed", as for cards drawn before hands existed. */
+  visibility?: CardVisibility;
+  /** Drawn with repeats allowed, so the card never left its deck and discarding or returning it leaves the deck alone. */
+  repeat?: boolean;
+};
+
+export type RecipePart = { category: Category; count: number };
+
+export type Recipe = { id: string; name: string; parts: RecipePart[] };
+
+export type RollRecord = { id: string; at: number; result: RollResult };
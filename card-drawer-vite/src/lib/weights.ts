@@ -0,0 +1,53 @@
+import type { Rng } from "@/lib/rng";
+import type { Row } from "@/lib/types";
+
+/** `capped` marks a copies count above MAX_COPIES that was lowered to it, rather than an unusable value. */
+export type WeightIssue = { index: number; value: string; capped?: boolean };
+
+export type WeightMode = "copies" | "weight";
+
+/** Copies per row in a no-repeat deck; a typo like "100000000" would otherwise freeze the tab building it. */
+export const MAX_COPIES = 1000;
+
+/**
+ * Reads a numeric column for every row. "copies" (no-repeat decks) needs whole
+ * numbers; "weight" (allow-repeats) takes any non-negative number. Rows with a
+ * blank or invalid value get 0 and are reported in `issues` so the UI can list them;
+ * copies above MAX_COPIES are lowered to it and reported as `capped`.
+ */
+export const readWeights = (rows: Row[], column: string, mode: WeightMode) => {
+  const values: number[] = [];
+  const issues: WeightIssue[] = [];
+  rows.forEach((row, index) => {
+    const raw = (row[column] ?? "").trim();
+    const n = raw === "" ? NaN : Number(raw);
+    const valid = Number.isFinite(n) && n >= 0 && (mode === "weight" || Number.isInteger(n));
+    if (!valid) issues.push({ index, value: raw });
+    else if (mode === "copies" && n > MAX_COPIES) issues.push({ index, value: raw, capped: true });
+    values.push(!valid ? 0 : mode === "copies" ? Math.min(n, MAX_COPIES) : n);
+  });
+  return { values, issues };
+};
+
+/** Row indices making up a fresh no-repeat deck, with each row repeated by its copies count. */
+export const buildDeck = (rows: Row[], weightColumn?: string): number[] => {
+  if (!weightColumn) return rows.map((_, i) => i);
+  const { values } = readWeights(rows, weightColumn, "copies");
+  return values.flatMap((copies, index) => Array.from({ length: copies }, () => index));
+};
+
+/** Picks an index with probability proportional to its weight, or null when every weight is 0. */
+export const pickWeighted = (rng: Rng, weights: number[]): number | null => {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  if (total <= 0) return null;
+  let target = rng.next() * total;
+  for (let i = 0; i < weights.length; i++) {
+    target -= weights[i];
+    if (target < 0 && weights[i] > 0) return i;
+  }
+  // Floating-point leftovers: fall back to the last row that can be drawn
+  for (let i = weights.length - 1; i >= 0; i--) {
+    if (weights[i] > 0) return i;
+  }
+  return null;
+};